@@ -0,0 +1,52 @@
+/**
+ * Compares the standard Winston File transport with the buffered file writer
+ *
+ * Usage: bun run bench [entries]
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import createLogger, { shutdown } from '../src'
+import type { FileWriter } from '../src'
+import { createBytes } from '../src/utils'
+
+const entries = Number(process.argv[2] ?? 100_000)
+const logDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'loggerama-bench-'))
+
+const run = async (fileWriter: FileWriter) => {
+  const logger = createLogger({
+    logName: `bench-${fileWriter}`,
+    logDirectory,
+    fileWriter,
+    enableConsoleLogging: false,
+    separateErrorLog: false,
+    separateWarnLog: false,
+    maxFileSize: createBytes(Number.MAX_SAFE_INTEGER),
+  })
+
+  const start = performance.now()
+  for (let i = 0; i < entries; i++) {
+    logger.info(`Benchmark entry ${i}`, { iteration: i, writer: fileWriter })
+  }
+  const logged = performance.now() - start
+  await shutdown({ timeout: 60_000 })
+  const total = performance.now() - start
+
+  return {
+    writer: fileWriter,
+    'log calls (ms)': Math.round(logged),
+    'until flushed (ms)': Math.round(total),
+    'entries/s': Math.round(entries / (total / 1000)),
+  }
+}
+
+try {
+  const results = []
+  for (const fileWriter of ['standard', 'buffered'] as const) {
+    results.push(await run(fileWriter))
+  }
+  console.log(`${entries} entries`)
+  console.table(results)
+} finally {
+  fs.rmSync(logDirectory, { recursive: true, force: true })
+}
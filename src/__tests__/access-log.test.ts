@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { MESSAGE } from 'triple-beam'
+import DailyRotateFile from 'winston-daily-rotate-file'
+import { ACCESS_ENTRY, accessLogFormat } from '../access-log'
+import { BufferedFileTransport } from '../buffered-file'
+import { fetchRequestLogging } from '../http'
+import { createLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import type { HttpAccessFields, LoggerOptions } from '../types'
+import { TEST_LOG_DIR } from './helpers'
+
+const CLF_DATE = /\[\d{2}\/[A-Z][a-z]{2}\/\d{4}:\d{2}:\d{2}:\d{2} [+-]\d{4}]/
+
+const fields: HttpAccessFields = {
+  method: 'GET',
+  url: '/users/42?full=1',
+  route: '/users/:id',
+  status: 200,
+  durationMs: 12.5,
+  bytes: 512,
+  ip: '203.0.113.7',
+  userAgent: 'curl/8.4.0 "quoted"',
+  httpVersion: '1.1',
+  requestId: 'req-1',
+}
+
+const render = (format: Parameters<typeof accessLogFormat>[0], entry: Record<string | symbol, unknown>) => {
+  const result = accessLogFormat(format, 'UTC').transform({ level: 'info', message: '', ...entry })
+  return result ? String((result as Record<symbol, unknown>)[MESSAGE]) : false
+}
+
+const createAccessLogger = (logName: string, options: Partial<LoggerOptions> = {}) =>
+  createLogger({
+    logDirectory: TEST_LOG_DIR,
+    logName,
+    enableConsoleLogging: false,
+    level: 'info',
+    ...options,
+  })
+
+describe('Access log', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('renders Combined and Common Log Format', () => {
+    const combined = render('combined', { ...fields, [ACCESS_ENTRY]: true }) as string
+    expect(combined).toMatch(CLF_DATE)
+    expect(combined.replace(CLF_DATE, '[date]')).toBe(
+      '203.0.113.7 - - [date] "GET /users/42?full=1 HTTP/1.1" 200 512 "-" "curl/8.4.0 \\"quoted\\""'
+    )
+    expect(
+      (render('common', { ...fields, bytes: 0, ip: undefined, [ACCESS_ENTRY]: true }) as string).replace(
+        CLF_DATE,
+        '[date]'
+      )
+    ).toBe('- - - [date] "GET /users/42?full=1 HTTP/1.1" 200 -')
+  })
+
+  test('renders token templates and drops other entries', () => {
+    expect(render(':method :route :status :response-time ms :request-id', { ...fields, [ACCESS_ENTRY]: true })).toBe(
+      'GET /users/:id 200 12.5 ms req-1'
+    )
+    expect(render('combined', { ...fields })).toBe(false)
+    expect(() => accessLogFormat(':method :latency')).toThrow('Unknown access log token: :latency')
+  })
+
+  test('writes request entries to the access log file', async () => {
+    const logName = 'test-access-file'
+    const logger = createAccessLogger(logName, { accessLog: true })
+    const logRequest = fetchRequestLogging(logger)
+
+    await logRequest(new Request('http://localhost/orders', { headers: { 'user-agent': 'bun' } }), () => {
+      logger.info('Loading orders')
+      return new Response('[]', { headers: { 'content-length': '2' } })
+    }, { ip: '10.0.0.7' })
+    await shutdown()
+
+    const read = (suffix: string) => fs.readFileSync(path.join(TEST_LOG_DIR, logName, `${logName}${suffix}`), 'utf-8')
+    const lines = read('-access.log').trim().split('\n')
+    expect(lines).toHaveLength(1)
+    expect(lines[0].replace(CLF_DATE, '[date]')).toBe('10.0.0.7 - - [date] "GET /orders HTTP/1.1" 200 2 "-" "bun"')
+    expect(read('-All.log')).toContain('Loading orders')
+    expect(read('-All.log')).toContain('GET /orders 200')
+  })
+
+  test('rotates the access log daily when daily rotation is on', async () => {
+    const logName = 'test-access-daily'
+    const logger = createAccessLogger(logName, { accessLog: { format: ':method :url :status' }, useDailyRotation: true })
+
+    await fetchRequestLogging(logger)(new Request('http://localhost/ping'), () => new Response(null, { status: 204 }))
+    await shutdown()
+
+    const files = fs.readdirSync(path.join(TEST_LOG_DIR, logName))
+    const accessFile = files.find((file) => /^test-access-daily-access-\d{4}-\d{2}-\d{2}\.log$/.test(file))
+    expect(accessFile).toBeDefined()
+    expect(fs.readFileSync(path.join(TEST_LOG_DIR, logName, accessFile!), 'utf-8').trim()).toBe('GET /ping 204')
+  })
+  test('uses the buffered writer for the daily access log', async () => {
+    const logName = 'test-access-daily-buffered'
+    const logger = createAccessLogger(logName, {
+      accessLog: { format: ':method :url :status' },
+      useDailyRotation: true,
+      fileWriter: 'buffered',
+    })
+    expect(logger.transports.some((t) => t instanceof DailyRotateFile)).toBe(false)
+    expect(logger.transports.filter((t) => t instanceof BufferedFileTransport)).not.toHaveLength(0)
+
+    await fetchRequestLogging(logger)(new Request('http://localhost/ping'), () => new Response(null, { status: 204 }))
+    await shutdown()
+
+    const files = fs.readdirSync(path.join(TEST_LOG_DIR, logName))
+    const accessFile = files.find((file) => /^test-access-daily-buffered-access-\d{4}-\d{2}-\d{2}\.log$/.test(file))
+    expect(accessFile).toBeDefined()
+    expect(fs.readFileSync(path.join(TEST_LOG_DIR, logName, accessFile!), 'utf-8').trim()).toBe('GET /ping 204')
+  })
+})
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { MESSAGE } from 'triple-beam'
+import { BufferedFileTransport } from '../buffered-file'
+import { createLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { createBytes } from '../utils'
+import { readLines, TEST_LOG_DIR } from './helpers'
+
+const entry = (message: string) => ({ level: 'info', message, [MESSAGE]: message })
+
+const closeTransport = (transport: BufferedFileTransport) =>
+  new Promise<void>((resolve) => {
+    transport.once('closed', resolve)
+    transport.close()
+  })
+
+describe('Buffered file writer', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('batches entries into few writes', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'batch', 'batch.log')
+    const transport = new BufferedFileTransport({ filename, flushSize: createBytes(4096) })
+
+    for (let i = 0; i < 1000; i++) {
+      transport.log(entry(`Entry ${i}`), () => {})
+    }
+    await transport.flush()
+
+    const lines = readLines(filename)
+    expect(lines).toHaveLength(1000)
+    expect(lines[999]).toBe('Entry 999')
+    expect(transport.stats.written).toBe(1000)
+    expect(transport.stats.flushes).toBeLessThan(10)
+    expect(transport.stats.bufferedBytes).toBe(0)
+    await closeTransport(transport)
+  })
+
+  test('flushes on the interval below the size threshold', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'interval', 'interval.log')
+    const transport = new BufferedFileTransport({ filename, flushInterval: 20 })
+
+    transport.log(entry('Lonely entry'), () => {})
+    expect(readLines(filename)).toEqual([])
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(readLines(filename)).toEqual(['Lonely entry'])
+    await closeTransport(transport)
+  })
+
+  test('drops entries when the buffer is full and overflow is drop', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'drop', 'drop.log')
+    const transport = new BufferedFileTransport({
+      filename,
+      flushSize: createBytes(1024 * 1024),
+      maxBufferSize: createBytes(1024 * 1024),
+      overflow: 'drop',
+    })
+
+    const line = 'x'.repeat(1000)
+    for (let i = 0; i < 2000; i++) {
+      transport.log(entry(line), () => {})
+    }
+    await transport.flush()
+
+    const { written, dropped } = transport.stats
+    expect(dropped).toBeGreaterThan(0)
+    expect(written + dropped).toBe(2000)
+    expect(readLines(filename)).toHaveLength(written)
+    await closeTransport(transport)
+  })
+
+  test('holds back entries until the buffer is written when overflow is block', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'block', 'block.log')
+    const transport = new BufferedFileTransport({
+      filename,
+      flushSize: createBytes(1024 * 1024),
+      maxBufferSize: createBytes(1024 * 1024),
+    })
+
+    const line = 'x'.repeat(1000)
+    let released = 0
+    for (let i = 0; i < 2000; i++) {
+      transport.log(entry(line), () => released++)
+    }
+    expect(released).toBeLessThan(2000)
+    expect(transport.stats.blocked).toBeGreaterThan(0)
+
+    await transport.flush()
+    expect(released).toBe(2000)
+    expect(transport.stats.dropped).toBe(0)
+    expect(readLines(filename)).toHaveLength(2000)
+    await closeTransport(transport)
+  })
+
+  test('rotates files by size', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'rotate', 'rotate.log')
+    const transport = new BufferedFileTransport({ filename, maxsize: 200, maxFiles: 3 })
+
+    for (let batch = 0; batch < 5; batch++) {
+      for (let i = 0; i < 5; i++) {
+        transport.log(entry(`Batch ${batch} entry ${i} ${'x'.repeat(20)}`), () => {})
+      }
+      await transport.flush()
+    }
+    await closeTransport(transport)
+
+    const files = fs.readdirSync(path.dirname(filename)).sort()
+    expect(files).toEqual(['rotate.log', 'rotate1.log', 'rotate2.log'])
+    expect(readLines(filename)[0]).toStartWith('Batch 4')
+    expect(readLines(path.join(path.dirname(filename), 'rotate1.log'))[0]).toStartWith('Batch 3')
+  })
+
+  test('compresses rotated files with zippedArchive', async () => {
+    const filename = path.join(TEST_LOG_DIR, 'zipped', 'zipped.log')
+    const transport = new BufferedFileTransport({ filename, maxsize: 200, maxFiles: 3, zippedArchive: true })
+
+    for (let batch = 0; batch < 5; batch++) {
+      for (let i = 0; i < 5; i++) {
+        transport.log(entry(`Batch ${batch} entry ${i} ${'x'.repeat(20)}`), () => {})
+      }
+      await transport.flush()
+    }
+    await closeTransport(transport)
+
+    const files = fs.readdirSync(path.dirname(filename)).sort()
+    expect(files).toEqual(['zipped.log', 'zipped1.log.gz', 'zipped2.log.gz'])
+    const archived = zlib.gunzipSync(fs.readFileSync(path.join(path.dirname(filename), 'zipped1.log.gz')))
+    expect(archived.toString('utf-8')).toStartWith('Batch 3')
+  })
+
+  test('starts a file each day and keeps maxFiles days', async () => {
+    const dir = path.join(TEST_LOG_DIR, 'daily')
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'daily-2024-10-07.log'), 'Old entry\n')
+
+    try {
+      setSystemTime(new Date(2024, 9, 9, 23, 59))
+      const transport = new BufferedFileTransport({ filename: path.join(dir, 'daily-%DATE%.log'), maxFiles: 2 })
+      transport.log(entry('Before midnight'), () => {})
+      await transport.flush()
+      expect(transport.filename).toBe(path.join(dir, 'daily-2024-10-09.log'))
+
+      setSystemTime(new Date(2024, 9, 10, 0, 1))
+      transport.log(entry('After midnight'), () => {})
+      await closeTransport(transport)
+      expect(transport.filename).toBe(path.join(dir, 'daily-2024-10-10.log'))
+    } finally {
+      setSystemTime()
+    }
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['daily-2024-10-09.log', 'daily-2024-10-10.log'])
+    expect(readLines(path.join(dir, 'daily-2024-10-09.log'))).toEqual(['Before midnight'])
+    expect(readLines(path.join(dir, 'daily-2024-10-10.log'))).toEqual(['After midnight'])
+  })
+
+  test('createLogger uses the buffered writer and shutdown flushes it', async () => {
+    const logName = 'test-buffered-logger'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      fileWriter: 'buffered',
+      fileWriterOptions: { flushInterval: 60_000 },
+      separateErrorLog: true,
+    })
+    expect(logger.transports.filter((t) => t instanceof BufferedFileTransport)).toHaveLength(2)
+
+    for (let i = 0; i < 100; i++) {
+      logger.info(`Buffered entry ${i}`)
+    }
+    logger.error('Buffered error')
+    await shutdown()
+
+    const logDir = path.join(TEST_LOG_DIR, logName)
+    expect(readLines(path.join(logDir, `${logName}-All.log`))).toHaveLength(101)
+    expect(readLines(path.join(logDir, `${logName}-error.log`))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,281 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { loadLoggerOptions, LoggerConfigError } from '../config'
+import { MB } from '../utils'
+import { TEST_LOG_DIR } from './helpers'
+
+const TEST_CONFIG_DIR = path.join(TEST_LOG_DIR, 'config')
+
+const projectDir = (name: string, files: Record<string, string> = {}) => {
+  const dir = path.join(TEST_CONFIG_DIR, name)
+  fs.mkdirSync(dir, { recursive: true })
+  for (const [file, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, file), content)
+  }
+  return dir
+}
+
+const loadIssues = async (...args: Parameters<typeof loadLoggerOptions>) => {
+  try {
+    await loadLoggerOptions(...args)
+  } catch (error) {
+    expect(error).toBeInstanceOf(LoggerConfigError)
+    return (error as LoggerConfigError).issues
+  }
+  throw new Error('Expected loadLoggerOptions to fail')
+}
+
+describe('Configuration loading', () => {
+  test('starts from the defaults of the environment', async () => {
+    const cwd = projectDir('defaults')
+    const options = await loadLoggerOptions({ cwd, env: {}, environment: 'production' })
+    expect(options.level).toBe('info')
+    expect(options.useDailyRotation).toBe(true)
+    expect(options.maxFileSize).toBe(MB(10))
+
+    const development = await loadLoggerOptions({ cwd, env: {} })
+    expect(development.prettyPrint).toBe(true)
+  })
+
+  test('merges config file, environment variables and overrides in order', async () => {
+    const cwd = projectDir('precedence', {
+      'loggerama.config.json': JSON.stringify({
+        logName: 'api',
+        level: 'warn',
+        maxFiles: 3,
+        maxFileSize: '2MB',
+        redact: { patterns: ['email', '/sk_\\w+/'] },
+      }),
+    })
+    const options = await loadLoggerOptions({
+      cwd,
+      environment: 'production',
+      env: { LOG_LEVEL: 'debug', LOG_CONSOLE: 'yes', LOG_MAX_FILES: '7', LOG_DIR: '/var/log/api' },
+      overrides: { logName: 'api-worker' },
+    })
+
+    expect(options.logName).toBe('api-worker')
+    expect(options.level).toBe('debug')
+    expect(options.enableConsoleLogging).toBe(true)
+    expect(options.maxFiles).toBe(7)
+    expect(options.maxFileSize).toBe(MB(2))
+    expect(options.logDirectory).toBe('/var/log/api')
+    expect(options.useDailyRotation).toBe(true)
+    expect(options.redact).toEqual({ patterns: ['email', /sk_\w+/] })
+  })
+
+  test('loads TypeScript config files', async () => {
+    const cwd = projectDir('typescript', {
+      'loggerama.config.ts': `export default { levelScheme: 'syslog', level: 'notice', redact: { patterns: [/secret/] } }`,
+    })
+    const options = await loadLoggerOptions({ cwd, env: {} })
+    expect(options.levelScheme).toBe('syslog')
+    expect(options.level).toBe('notice')
+    expect(options.redact).toEqual({ patterns: [/secret/] })
+  })
+
+  test('loads JavaScript config files and rejects unsupported file types', async () => {
+    const cwd = projectDir('javascript', {
+      'loggerama.config.mjs': `export default { level: 'warn', logName: 'worker' }`,
+      'loggerama.config.json': JSON.stringify({ level: 'error' }),
+    })
+    const options = await loadLoggerOptions({ cwd, env: {} })
+    expect(options.level).toBe('warn')
+    expect(options.logName).toBe('worker')
+
+    const yaml = projectDir('yaml', { 'loggerama.config.yaml': 'level: warn' })
+    expect(await loadIssues({ cwd: yaml, env: {}, configFile: 'loggerama.config.yaml' })).toEqual([
+      'loggerama.config.yaml: could not be loaded (unsupported file type ".yaml", use .json, .js, .mjs, .cjs or .ts)',
+    ])
+  })
+
+  test('reports every problem at once', async () => {
+    const cwd = projectDir('invalid', {
+      'loggerama.config.json': JSON.stringify({
+        maxFiles: -1,
+        maxFileSize: 'huge',
+        colour: true,
+        moduleLevels: { db: 'loud' },
+        timezone: 'Mars/Olympus',
+      }),
+    })
+    const issues = await loadIssues({
+      cwd,
+      env: { LOG_LEVEL: 'chatty', LOG_CONSOLE: 'maybe' },
+    })
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        'loggerama.config.json: maxFiles must be a positive integer (got -1)',
+        expect.stringContaining('loggerama.config.json: maxFileSize must be a non-negative integer number of bytes'),
+        'loggerama.config.json: colour is not a logger option',
+        expect.stringContaining('loggerama.config.json: timezone must be UTC or an IANA timezone name'),
+        expect.stringContaining('loggerama.config.json: moduleLevels.db must be one of error, warn, info'),
+        'environment variable LOG_CONSOLE: enableConsoleLogging must be a boolean (got "maybe")',
+        expect.stringContaining('environment variable LOG_LEVEL: level must be one of'),
+      ])
+    )
+    expect(issues).toHaveLength(7)
+  })
+
+  test('checks levels against the final level definitions', async () => {
+    const cwd = projectDir('levels', {
+      'loggerama.config.json': JSON.stringify({ levelScheme: 'syslog' }),
+    })
+    const issues = await loadIssues({ cwd, env: { LOG_LEVEL: 'warn' } })
+    expect(issues).toEqual([
+      'environment variable LOG_LEVEL: level must be one of emerg, alert, crit, error, warning, notice, info, debug (got "warn")',
+    ])
+
+    const options = await loadLoggerOptions({
+      cwd,
+      env: {},
+      overrides: { levels: { fatal: { severity: 0 }, trace: { severity: 1 } }, level: 'trace' },
+    })
+    expect(options.level).toBe('trace')
+  })
+
+  test('validates sampling options', async () => {
+    const valid = projectDir('sampling-valid', {
+      'loggerama.config.json': JSON.stringify({
+        sampling: { rates: { debug: 100 }, rateLimit: { max: 10, interval: 30000, levels: ['error'] } },
+      }),
+    })
+    const options = await loadLoggerOptions({ cwd: valid, env: {} })
+    expect(options.sampling).toEqual({
+      rates: { debug: 100 },
+      rateLimit: { max: 10, interval: 30000, levels: ['error'] },
+    })
+
+    const invalid = projectDir('sampling-invalid', {
+      'loggerama.config.json': JSON.stringify({
+        sampling: { rates: { chatty: 2 }, rateLimit: { max: 10, levels: ['loud'] } },
+      }),
+    })
+    expect(await loadIssues({ cwd: invalid, env: {} })).toEqual([
+      expect.stringContaining('loggerama.config.json: sampling.rates key must be one of error, warn'),
+      expect.stringContaining('loggerama.config.json: sampling.rateLimit.levels entry must be one of error, warn'),
+    ])
+
+    const malformed = projectDir('sampling-malformed', {
+      'loggerama.config.json': JSON.stringify({ sampling: { rateLimit: { max: 0 }, every: 2 } }),
+    })
+    expect(await loadIssues({ cwd: malformed, env: {} })).toEqual([
+      'loggerama.config.json: sampling rateLimit max must be a positive integer (got 0); every is not a sampling option',
+    ])
+  })
+
+  test('validates syslog options', async () => {
+    const valid = projectDir('syslog-valid', {
+      'loggerama.config.json': JSON.stringify({
+        syslog: { protocol: 'tcp', host: 'logs.internal', port: 6514, facility: 'local3', severities: { data: 5 } },
+      }),
+    })
+    const options = await loadLoggerOptions({ cwd: valid, env: {} })
+    expect(options.syslog).toEqual({
+      protocol: 'tcp',
+      host: 'logs.internal',
+      port: 6514,
+      facility: 'local3',
+      severities: { data: 5 },
+    })
+
+    const unknownLevel = projectDir('syslog-levels', {
+      'loggerama.config.json': JSON.stringify({ syslog: { severities: { chatty: 6 } } }),
+    })
+    expect(await loadIssues({ cwd: unknownLevel, env: {} })).toEqual([
+      expect.stringContaining('loggerama.config.json: syslog.severities key must be one of error, warn'),
+    ])
+
+    const malformed = projectDir('syslog-malformed', {
+      'loggerama.config.json': JSON.stringify({ syslog: { protocol: 'http', facility: 30 } }),
+    })
+    expect(await loadIssues({ cwd: malformed, env: {} })).toEqual([
+      'loggerama.config.json: syslog protocol must be one of udp, tcp, unix (got "http"); facility must be a facility code from 0 to 23 (got 30)',
+    ])
+  })
+
+  test('validates shipping options', async () => {
+    const valid = projectDir('shipping-valid', {
+      'loggerama.config.json': JSON.stringify({
+        shipping: { url: 'https://collector.internal/logs', retries: 0, maxSpoolSize: '50MB', spool: true },
+      }),
+    })
+    const options = await loadLoggerOptions({ cwd: valid, env: {} })
+    expect(options.shipping).toEqual({
+      url: 'https://collector.internal/logs',
+      retries: 0,
+      maxSpoolSize: MB(50),
+      spool: true,
+    })
+
+    const malformed = projectDir('shipping-malformed', {
+      'loggerama.config.json': JSON.stringify({ shipping: { url: 'ftp://collector', batchSize: 0, compress: true } }),
+    })
+    expect(await loadIssues({ cwd: malformed, env: {} })).toEqual([
+      'loggerama.config.json: shipping url must be an http:// or https:// URL (got "ftp://collector"); batchSize must be a positive integer (got 0); compress is not a shipping option',
+    ])
+  })
+
+  test('validates routes', async () => {
+    const valid = projectDir('routes-valid', {
+      'loggerama.config.json': JSON.stringify({
+        routes: [
+          { file: '-audit.log', module: 'audit' },
+          { file: '-problems.log', levels: { atLeast: 'warn' } },
+        ],
+      }),
+    })
+    const options = await loadLoggerOptions({ cwd: valid, env: {} })
+    expect(options.routes).toEqual([
+      { file: '-audit.log', module: 'audit' },
+      { file: '-problems.log', levels: { atLeast: 'warn' } },
+    ])
+
+    const invalid = projectDir('routes-invalid', {
+      'loggerama.config.json': JSON.stringify({
+        routes: [{ file: '-warn-only.log', levels: ['warning'] }],
+      }),
+    })
+    expect(await loadIssues({ cwd: invalid, env: {} })).toEqual([
+      expect.stringContaining('loggerama.config.json: routes -warn-only.log level must be one of error, warn'),
+    ])
+
+    const malformed = projectDir('routes-malformed', {
+      'loggerama.config.json': JSON.stringify({
+        routes: [{ levels: ['warn'] }, { file: 'audit.txt', modules: ['audit'] }],
+      }),
+    })
+    expect(await loadIssues({ cwd: malformed, env: {} })).toEqual([
+      'loggerama.config.json: routes entry 0: file is required; entry 1: file must be a file suffix such as "-audit.log" (got "audit.txt"); modules is not a route option',
+    ])
+  })
+
+  test('reports unreadable config files and unknown environments', async () => {
+    const cwd = projectDir('unreadable', { 'loggerama.config.json': '{ "level": ' })
+    const issues = await loadIssues({ cwd, env: { NODE_ENV: 'undefined-env' } })
+    expect(issues).toHaveLength(2)
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('loggerama.config.json: could not be loaded'),
+        expect.stringContaining('environment must be one of development, production, test'),
+      ])
+    )
+
+    const missing = await loadIssues({ cwd, env: {}, configFile: 'missing.json' })
+    expect(missing[0]).toContain('missing.json: could not be loaded')
+  })
+
+  test('skips config files when configFile is false', async () => {
+    const cwd = projectDir('skip', { 'loggerama.config.json': JSON.stringify({ level: 'error' }) })
+    const options = await loadLoggerOptions({ cwd, env: {}, configFile: false, environment: 'test' })
+    expect(options.level).toBe('debug')
+  })
+
+  test('formats issues into the error message', async () => {
+    const error = new LoggerConfigError('Invalid logger configuration', ['a is wrong', 'b is wrong'])
+    expect(error.message).toBe('Invalid logger configuration:\n  - a is wrong\n  - b is wrong')
+    expect(error.name).toBe('LoggerConfigError')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test'
+import { getLogContext, runWithLogContext } from '../context'
+import { createChildLogger, createLogger } from '../log-facotry'
+import { readEntries, TEST_LOG_DIR } from './helpers'
+
+describe('Log Context', () => {
+  test('is undefined outside of runWithLogContext', () => {
+    expect(getLogContext()).toBeUndefined()
+  })
+
+  test('propagates across async boundaries', async () => {
+    const context = await runWithLogContext({ requestId: 'req-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      return getLogContext()
+    })
+    expect(context).toEqual({ requestId: 'req-1' })
+  })
+
+  test('nested contexts inherit and override fields', () => {
+    runWithLogContext({ requestId: 'outer', tenant: 'acme' }, () => {
+      runWithLogContext({ requestId: 'inner' }, () => {
+        expect(getLogContext()).toEqual({ requestId: 'inner', tenant: 'acme' })
+      })
+      expect(getLogContext()).toEqual({ requestId: 'outer', tenant: 'acme' })
+    })
+  })
+
+  test('injects the active context into log entries', async () => {
+    const logName = 'test-context'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      fileOutputFormat: 'json',
+      level: 'info',
+    })
+    const childLogger = createChildLogger(logger, { module: 'db' })
+
+    await runWithLogContext({ correlationId: 'corr-1', module: 'context' }, async () => {
+      await Promise.resolve()
+      logger.info('From root')
+      childLogger.info('From child')
+      logger.info('With meta', { correlationId: 'explicit' })
+    })
+    logger.info('Outside')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const [root, child, explicit, outside] = readEntries(logName)
+
+    expect(root).toMatchObject({ correlationId: 'corr-1', module: 'context' })
+    expect(child).toMatchObject({ correlationId: 'corr-1', module: 'db' })
+    expect(explicit.correlationId).toBe('explicit')
+    expect(outside.correlationId).toBeUndefined()
+  })
+})
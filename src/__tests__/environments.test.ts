@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as winston from 'winston'
+import { loadLoggerOptions } from '../config'
+import {
+  defineEnvironment,
+  getEnvironmentOptions,
+  isValidEnvironment,
+  listEnvironments,
+} from '../environments'
+import { createLogger, createSimpleLogger } from '../log-facotry'
+import { getLevel } from '../runtime'
+import { TEST_LOG_DIR } from './helpers'
+
+const hasConsole = (logger: winston.Logger) =>
+  logger.transports.some((t) => t instanceof winston.transports.Console)
+
+const hasRotation = (logger: winston.Logger) =>
+  logger.transports.some((t) => t.constructor.name === 'DailyRotateFile')
+
+describe('Environments', () => {
+  const originalNodeEnv = process.env.NODE_ENV
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv
+  })
+
+  test('defineEnvironment extends another environment', () => {
+    defineEnvironment('env-staging', { extends: 'production', level: 'debug' })
+
+    expect(isValidEnvironment('env-staging')).toBe(true)
+    expect(listEnvironments()).toEqual(
+      expect.arrayContaining(['development', 'production', 'test', 'env-staging'])
+    )
+    expect(getEnvironmentOptions('env-staging')).toMatchObject({
+      level: 'debug',
+      useDailyRotation: true,
+      enableConsoleLogging: false,
+    })
+  })
+
+  test('NODE_ENV selects a registered environment', () => {
+    defineEnvironment('env-preview', { extends: 'development', prettyPrint: false, level: 'warn' })
+    process.env.NODE_ENV = 'env-preview'
+
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-preview' })
+    expect(getLevel(logger)).toBe('warn')
+    expect(hasConsole(logger)).toBe(true)
+  })
+
+  test('the environment option overrides NODE_ENV', () => {
+    defineEnvironment('env-ci', { extends: 'test', enableConsoleLogging: true })
+    process.env.NODE_ENV = 'production'
+
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-ci', environment: 'env-ci' })
+    expect(hasConsole(logger)).toBe(true)
+    expect(hasRotation(logger)).toBe(false)
+
+    const simple = createSimpleLogger('env-ci')
+    expect(simple.level).toBe('debug')
+    expect(hasConsole(simple)).toBe(true)
+  })
+
+  test('extends copies the base at definition time', () => {
+    defineEnvironment('env-base', { level: 'info', colorize: true })
+    defineEnvironment('env-derived', { extends: 'env-base', colorize: false })
+    defineEnvironment('env-base', { level: 'error' })
+
+    expect(getEnvironmentOptions('env-derived')).toEqual({ level: 'info', colorize: false })
+    expect(getEnvironmentOptions('env-base')).toEqual({ level: 'error' })
+  })
+
+  test('rejects unknown environments', () => {
+    expect(() => defineEnvironment('env-broken', { extends: 'nowhere' })).toThrow(
+      'Invalid environment: nowhere'
+    )
+    expect(() => defineEnvironment('')).toThrow('Environment name must not be empty')
+    expect(() => createLogger({ logDirectory: TEST_LOG_DIR, environment: 'nowhere' })).toThrow(
+      /Invalid environment: nowhere \(expected one of development, production, test, .*env-staging/
+    )
+  })
+
+  test('loadLoggerOptions uses registered environments', async () => {
+    defineEnvironment('env-load', { extends: 'production', maxFiles: 30 })
+
+    const options = await loadLoggerOptions({ env: { NODE_ENV: 'env-load' }, configFile: false })
+    expect(options.environment).toBe('env-load')
+    expect(options.maxFiles).toBe(30)
+    expect(options.useDailyRotation).toBe(true)
+
+    const overridden = await loadLoggerOptions({
+      env: { NODE_ENV: 'env-load' },
+      configFile: false,
+      overrides: { environment: 'development' },
+    })
+    expect(overridden.environment).toBe('development')
+    expect(overridden.maxFiles).toBe(5)
+  })
+})
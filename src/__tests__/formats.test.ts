@@ -0,0 +1,173 @@
+import { describe, expect, test } from 'bun:test'
+import { LEVEL } from 'triple-beam'
+import * as winston from 'winston'
+import Transport from 'winston-transport'
+import { createStructuredEntry, errorFieldFormat, serializeError, toErrorEntry, toSerializable } from '../formats'
+import type { SerializedError, TypedError } from '../types'
+
+describe('serializeError', () => {
+  test('captures name, message, stack and own properties', () => {
+    const error: TypedError = new Error('Not found')
+    error.code = 'ENOENT'
+
+    const serialized = serializeError(error)
+
+    expect(serialized.name).toBe('Error')
+    expect(serialized.message).toBe('Not found')
+    expect(serialized.stack).toContain('Not found')
+    expect(serialized.code).toBe('ENOENT')
+  })
+
+  test('follows cause chains and aggregated errors', () => {
+    const root = Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' })
+    const error = new AggregateError(
+      [new Error('Replica 1 failed', { cause: root } as ErrorOptions), new TypeError('Replica 2 failed')],
+      'All replicas failed'
+    )
+
+    const serialized = serializeError(error)
+
+    expect(serialized.name).toBe('AggregateError')
+    expect(serialized.errors).toHaveLength(2)
+    const [first, second] = serialized.errors as SerializedError[]
+    expect(first.message).toBe('Replica 1 failed')
+    expect(first.cause).toMatchObject({ name: 'Error', message: 'Connection reset', code: 'ECONNRESET' })
+    expect((first.cause as SerializedError).stack).toContain('Connection reset')
+    expect(second.name).toBe('TypeError')
+  })
+
+  test('includes codes defined on the prototype and non-error causes', () => {
+    class HttpError extends Error {
+      get code() {
+        return 'E_HTTP'
+      }
+    }
+    const serialized = serializeError(new HttpError('Bad gateway', { cause: { status: 502 } } as ErrorOptions))
+
+    expect(serialized.code).toBe('E_HTTP')
+    expect(serialized.cause).toEqual({ status: 502 })
+  })
+
+  test('replaces circular references between errors', () => {
+    const outer = new Error('outer')
+    const inner = new Error('inner', { cause: outer } as ErrorOptions)
+    Object.assign(outer, { cause: inner, self: outer })
+
+    const serialized = serializeError(outer)
+    const cause = serialized.cause as SerializedError
+
+    expect(serialized.self).toBe('[Circular]')
+    expect(cause.message).toBe('inner')
+    expect(cause.cause).toBe('[Circular]')
+  })
+})
+
+describe('toErrorEntry', () => {
+  test('moves a copy of the error under error and leaves the original untouched', () => {
+    const cause = new Error('Timeout')
+    const error = Object.assign(new RangeError('Out of range', { cause } as ErrorOptions), {
+      code: 'E_RANGE',
+      level: 'error',
+      [LEVEL]: 'error',
+    })
+
+    const entry = toErrorEntry(error)
+
+    expect(entry).toMatchObject({ level: 'error', [LEVEL]: 'error', message: 'Out of range' })
+    const copy = entry.error as RangeError & { code?: string; level?: string }
+    expect(copy).not.toBe(error)
+    expect(copy).toBeInstanceOf(RangeError)
+    expect(copy.message).toBe('Out of range')
+    expect(copy.stack).toBe(error.stack)
+    expect(copy.code).toBe('E_RANGE')
+    expect(copy.cause).toBe(cause)
+    expect(copy.level).toBeUndefined()
+    expect(Object.keys(copy)).toEqual(['code'])
+    expect(error.level).toBe('error')
+    expect(error[LEVEL]).toBe('error')
+  })
+})
+
+describe('errorFieldFormat', () => {
+  test('holds a copy of errors passed after the message without their level', () => {
+    const entries: Record<string, unknown>[] = []
+    const logger = winston.createLogger({
+      format: errorFieldFormat(),
+      transports: [
+        new (class extends Transport {
+          log(info: Record<string, unknown>, callback: () => void) {
+            entries.push(info)
+            callback()
+          }
+        })(),
+      ],
+    })
+    const error = Object.assign(new Error('boom'), { code: 'E_BOOM' })
+    logger.error(error)
+    logger.error('Failed', error)
+
+    const serialized = JSON.parse(JSON.stringify(toSerializable(entries[1].error))) as SerializedError
+    expect(entries[1].message).toBe('Failed')
+    expect(serialized).toMatchObject({ message: 'boom', code: 'E_BOOM' })
+    expect(serialized).not.toHaveProperty('level')
+    expect(entries[1].error).not.toBe(error)
+  })
+})
+
+describe('toSerializable', () => {
+  test('replaces circular references', () => {
+    const value: Record<string, unknown> = { name: 'loop' }
+    value.self = value
+
+    expect(toSerializable(value)).toEqual({ name: 'loop', self: '[Circular]' })
+  })
+
+  test('serializes nested errors, dates and bigints', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z')
+    const result = toSerializable({
+      error: new TypeError('bad'),
+      at: date,
+      count: BigInt(10),
+    }) as Record<string, unknown>
+    const error = result.error as SerializedError
+
+    expect(error.name).toBe('TypeError')
+    expect(error.message).toBe('bad')
+    expect(result.at).toBe('2024-01-01T00:00:00.000Z')
+    expect(result.count).toBe('10')
+  })
+
+  test('keeps repeated but non-circular references', () => {
+    const shared = { id: 1 }
+    expect(toSerializable({ a: shared, b: shared })).toEqual({
+      a: { id: 1 },
+      b: { id: 1 },
+    })
+  })
+})
+
+describe('createStructuredEntry', () => {
+  test('places core fields first and keeps metadata', () => {
+    const entry = createStructuredEntry(
+      { level: 'info', message: 'hello', timestamp: 'now', userId: 42 },
+      'api'
+    )
+
+    expect(Object.keys(entry).slice(0, 4)).toEqual([
+      'timestamp',
+      'level',
+      'logName',
+      'message',
+    ])
+    expect(entry.logName).toBe('api')
+    expect(entry.userId).toBe(42)
+  })
+
+  test('serializes errors logged directly', () => {
+    const error = Object.assign(new Error('boom'), { level: 'error' })
+    const entry = createStructuredEntry(error, 'api')
+
+    expect(entry.message).toBe('boom')
+    expect((entry.error as Record<string, unknown>).stack).toContain('boom')
+  })
+})
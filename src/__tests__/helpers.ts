@@ -0,0 +1,45 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createLogger } from '../log-facotry'
+import type { LoggerOptions } from '../types'
+
+/**
+ * Directory of the files written by tests, emptied after each test by `setup.ts`
+ */
+export const TEST_LOG_DIR = path.join(process.cwd(), 'src', '__tests__', 'logs')
+
+/**
+ * Path of a file written by a test logger, e.g. `logs/<logName>/<logName>-All.log`
+ */
+export const logFilePath = (logName: string, suffix = '-All.log'): string =>
+  path.join(TEST_LOG_DIR, logName, `${logName}${suffix}`)
+
+/**
+ * Non-empty lines of a file, or none if the file does not exist
+ */
+export const readLines = (file: string): string[] =>
+  fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean) : []
+
+/**
+ * Parsed entries of a JSON file written by a test logger
+ */
+export const readEntries = (logName: string, suffix = '-All.log') =>
+  readLines(logFilePath(logName, suffix)).map((line) => JSON.parse(line))
+
+/**
+ * Creates a logger writing to the test log directory at `debug`, without console output
+ */
+export const createTestLogger = (logName: string, options: Partial<LoggerOptions> = {}) =>
+  createLogger({
+    logDirectory: TEST_LOG_DIR,
+    logName,
+    enableConsoleLogging: false,
+    level: 'debug',
+    ...options,
+  })
+
+/**
+ * Creates a test logger writing JSON files
+ */
+export const createJsonLogger = (logName: string, options: Partial<LoggerOptions> = {}) =>
+  createTestLogger(logName, { fileOutputFormat: 'json', ...options })
@@ -0,0 +1,186 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as path from 'path'
+import { gunzipSync } from 'zlib'
+import { MESSAGE } from 'triple-beam'
+import { HttpBatchTransport } from '../http-batch'
+import { createLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { createSafePath } from '../utils'
+import { TEST_LOG_DIR } from './helpers'
+
+type ReceivedRequest = { headers: http.IncomingHttpHeaders; lines: string[] }
+
+/** Stand-in for a log collector, answering with the status of `respond` */
+const collector = {
+  server: http.createServer(),
+  url: '',
+  requests: [] as ReceivedRequest[],
+  respond: () => 200,
+}
+
+/** Lines of all accepted requests */
+const delivered = () => collector.requests.flatMap((request) => request.lines)
+
+const entry = (line: string) => ({ [MESSAGE]: line })
+
+const waitFor = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  expect(condition()).toBe(true)
+}
+
+const spoolFiles = (directory: string) => (fs.existsSync(directory) ? fs.readdirSync(directory).sort() : [])
+
+describe('HTTP batch shipping', () => {
+  beforeAll(async () => {
+    collector.server.on('request', (request: http.IncomingMessage, response: http.ServerResponse) => {
+      const chunks: Buffer[] = []
+      request.on('data', (chunk: Buffer) => chunks.push(chunk))
+      request.on('end', () => {
+        const status = collector.respond()
+        if (status < 300) {
+          const body = Buffer.concat(chunks)
+          const text = request.headers['content-encoding'] === 'gzip' ? gunzipSync(body).toString() : body.toString()
+          collector.requests.push({ headers: request.headers, lines: text.split('\n').filter(Boolean) })
+        }
+        response.statusCode = status
+        response.end()
+      })
+    })
+    await new Promise<void>((resolve) => collector.server.listen(0, '127.0.0.1', resolve))
+    collector.url = `http://127.0.0.1:${(collector.server.address() as { port: number }).port}/logs`
+  })
+
+  afterEach(async () => {
+    await shutdown()
+    collector.requests = []
+    collector.respond = () => 200
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => collector.server.close(resolve))
+  })
+
+  test('posts gzip compressed NDJSON batches with configured headers', async () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'shipping',
+      enableFileLogging: false,
+      enableConsoleLogging: false,
+      shipping: { url: collector.url, headers: { Authorization: 'Bearer secret' }, batchSize: 2 },
+    })
+    logger.info('First', { orderId: 1 })
+    logger.info('Second')
+    logger.warn('Third')
+    await shutdown()
+
+    expect(collector.requests.map((request) => request.lines.length)).toEqual([2, 1])
+    expect(collector.requests[0].headers).toMatchObject({
+      'content-type': 'application/x-ndjson',
+      'content-encoding': 'gzip',
+      authorization: 'Bearer secret',
+    })
+    const entries = delivered().map((line) => JSON.parse(line))
+    expect(entries.map((item) => item.message)).toEqual(['First', 'Second', 'Third'])
+    expect(entries[0]).toMatchObject({ level: 'info', logName: 'shipping', orderId: 1 })
+    expect(typeof entries[0].timestamp).toBe('string')
+  })
+
+  test('retries failed requests with exponential backoff', async () => {
+    const statuses = [503, 429]
+    collector.respond = () => statuses.shift() ?? 200
+    const transport = new HttpBatchTransport({ url: collector.url, gzip: false, retryDelay: 5 })
+    const warnings: Error[] = []
+    transport.on('warn', (error: Error) => warnings.push(error))
+
+    transport.log(entry('{"n":1}'), () => {})
+    await transport.flush()
+    transport.close()
+
+    expect(delivered()).toEqual(['{"n":1}'])
+    expect(collector.requests[0].headers['content-encoding']).toBeUndefined()
+    expect(transport.stats).toMatchObject({ sent: 1, retries: 2, dropped: 0, pending: 0 })
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      `Log shipping to ${collector.url} failed with status 503`,
+      `Log shipping to ${collector.url} failed with status 429`,
+    ])
+  })
+
+  test('drops batches the endpoint rejects', async () => {
+    collector.respond = () => 400
+    const transport = new HttpBatchTransport({ url: collector.url, retryDelay: 5 })
+    transport.on('warn', () => {})
+
+    transport.log(entry('{"n":1}'), () => {})
+    await transport.flush()
+    transport.close()
+
+    expect(transport.stats).toMatchObject({ sent: 0, retries: 0, dropped: 1, spooled: 0 })
+  })
+
+  test('spools batches during outages and replays them in order on recovery', async () => {
+    const spoolDirectory = createSafePath(path.join(TEST_LOG_DIR, 'outage'))
+    let available = false
+    collector.respond = () => (available ? 200 : 503)
+    const transport = new HttpBatchTransport({
+      url: collector.url,
+      retries: 1,
+      retryDelay: 5,
+      maxRetryDelay: 20,
+      spoolDirectory,
+    })
+    transport.on('warn', () => {})
+
+    transport.log(entry('{"n":1}'), () => {})
+    await transport.flush()
+    transport.log(entry('{"n":2}'), () => {})
+    await transport.flush()
+    expect(spoolFiles(spoolDirectory)).toHaveLength(2)
+    expect(transport.stats).toMatchObject({ sent: 0, spooled: 2, retries: 1 })
+
+    available = true
+    await waitFor(() => transport.stats.sent === 2)
+    transport.log(entry('{"n":3}'), () => {})
+    await transport.flush()
+    transport.close()
+
+    expect(delivered()).toEqual(['{"n":1}', '{"n":2}', '{"n":3}'])
+    expect(spoolFiles(spoolDirectory)).toEqual([])
+  })
+
+  test('replays spool files left by a previous process on start', async () => {
+    const spoolDirectory = createSafePath(path.join(TEST_LOG_DIR, 'restart'))
+    fs.mkdirSync(spoolDirectory, { recursive: true })
+    fs.writeFileSync(path.join(spoolDirectory, '1700000000000-000000.ndjson'), '{"n":1}\n{"n":2}\n')
+
+    const transport = new HttpBatchTransport({ url: collector.url, spoolDirectory })
+    transport.log(entry('{"n":3}'), () => {})
+    await waitFor(() => transport.stats.sent === 1 + 2)
+    transport.close()
+
+    expect(delivered()).toEqual(['{"n":1}', '{"n":2}', '{"n":3}'])
+    expect(spoolFiles(spoolDirectory)).toEqual([])
+  })
+
+  test('spools buffered entries to the log directory when shut down during an outage', async () => {
+    collector.respond = () => 503
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'shipping-outage',
+      enableFileLogging: false,
+      enableConsoleLogging: false,
+      shipping: { url: collector.url, flushInterval: 60_000 },
+    })
+    logger.on('warn', () => {})
+    logger.info('Pending')
+    await shutdown()
+
+    const spoolDirectory = path.join(TEST_LOG_DIR, 'shipping-outage', 'spool')
+    const [file] = spoolFiles(spoolDirectory)
+    const [line] = fs.readFileSync(path.join(spoolDirectory, file), 'utf-8').split('\n')
+    expect(JSON.parse(line)).toMatchObject({ message: 'Pending', logName: 'shipping-outage' })
+  })
+})
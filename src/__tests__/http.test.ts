@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import { getLogContext } from '../context'
+import { fetchRequestLogging, requestLoggingMiddleware } from '../http'
+import { shutdown } from '../registry'
+import type { RequestLoggingOptions } from '../types'
+import { createJsonLogger, readEntries } from './helpers'
+
+const servers: http.Server[] = []
+
+/** Serves requests through the middleware and returns the server's base URL */
+const serve = async (
+  logger: ReturnType<typeof createJsonLogger>,
+  options: RequestLoggingOptions,
+  handler: http.RequestListener
+) => {
+  const middleware = requestLoggingMiddleware(logger, options)
+  const server = http.createServer((req, res) => middleware(req, res, () => handler(req, res)))
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  servers.push(server)
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+describe('Request logging middleware', () => {
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))))
+    await shutdown()
+  })
+
+  test('writes one structured access entry per request', async () => {
+    const logName = 'test-http-node'
+    const logger = createJsonLogger(logName)
+    const url = await serve(logger, { skip: ['/health'] }, (req, res) => {
+      logger.debug('Handling request')
+      const status = req.url?.startsWith('/missing') ? 404 : req.url === '/broken' ? 503 : 200
+      res.statusCode = status
+      res.write('hello ')
+      res.end('wörld')
+    })
+
+    const ok = await fetch(`${url}/users/42?full=1`, {
+      headers: { 'user-agent': 'test-agent', 'x-request-id': 'req-1', referer: 'https://example.com' },
+    })
+    await ok.text()
+    expect(ok.headers.get('x-request-id')).toBe('req-1')
+    await (await fetch(`${url}/missing`)).text()
+    await (await fetch(`${url}/broken`)).text()
+    await (await fetch(`${url}/health`)).text()
+    await shutdown()
+
+    const entries = readEntries(logName)
+    const access = entries.filter((entry) => entry.status !== undefined)
+    expect(access.map(({ level, message }) => [level, message])).toEqual([
+      ['info', 'GET /users/42?full=1 200'],
+      ['warn', 'GET /missing 404'],
+      ['error', 'GET /broken 503'],
+    ])
+    expect(access[0]).toMatchObject({
+      method: 'GET',
+      url: '/users/42?full=1',
+      status: 200,
+      bytes: 12,
+      ip: '127.0.0.1',
+      userAgent: 'test-agent',
+      referer: 'https://example.com',
+      httpVersion: '1.1',
+      requestId: 'req-1',
+    })
+    expect(access[0].durationMs).toBeGreaterThanOrEqual(0)
+    expect(access[1].requestId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(entries.find((entry) => entry.message === 'Handling request').requestId).toBe('req-1')
+  })
+
+  test('applies level overrides, skip rules and trusted proxy addresses', async () => {
+    const logName = 'test-http-options'
+    const logger = createJsonLogger(logName)
+    const url = await serve(
+      logger,
+      {
+        levels: { '2xx': 'debug', '4xx': 'info' },
+        skip: ({ headers }) => headers['user-agent'] === 'kube-probe/1.29',
+        requestIdHeader: 'x-correlation-id',
+        generateRequestId: () => 'generated',
+        trustProxy: true,
+      },
+      (req, res) => {
+        res.statusCode = req.url === '/bad' ? 400 : 204
+        res.end()
+      }
+    )
+
+    const response = await fetch(`${url}/`, { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } })
+    expect(response.headers.get('x-correlation-id')).toBe('generated')
+    await fetch(`${url}/bad`)
+    await fetch(`${url}/`, { headers: { 'user-agent': 'kube-probe/1.29' } })
+    await shutdown()
+
+    expect(readEntries(logName)).toEqual([
+      expect.objectContaining({ level: 'debug', status: 204, bytes: 0, ip: '203.0.113.7', requestId: 'generated' }),
+      expect.objectContaining({ level: 'info', status: 400, ip: '127.0.0.1' }),
+    ])
+  })
+
+  test('accepts request IDs from headers only when they are safe to log', async () => {
+    const logName = 'test-http-request-ids'
+    const logger = createJsonLogger(logName)
+    const logRequest = fetchRequestLogging(logger, { generateRequestId: () => 'generated' })
+    const respond = (requestId: string) =>
+      logRequest(new Request('http://localhost/', { headers: { 'x-request-id': requestId } }), () => new Response('ok'))
+
+    const safe = await respond('trace:4bf9-2f35_a.1')
+    const injected = await respond('- - [01/Jan/2024:00:00:00 +0000] "GET /admin HTTP/1.1" 200')
+    const tooLong = await respond('a'.repeat(129))
+    await shutdown()
+
+    expect(safe.headers.get('x-request-id')).toBe('trace:4bf9-2f35_a.1')
+    expect(injected.headers.get('x-request-id')).toBe('generated')
+    expect(tooLong.headers.get('x-request-id')).toBe('generated')
+    expect(readEntries(logName).map((entry) => entry.requestId)).toEqual(['trace:4bf9-2f35_a.1', 'generated', 'generated'])
+  })
+
+  test('logs fetch-style handlers', async () => {
+    const logName = 'test-http-fetch'
+    const logger = createJsonLogger(logName)
+    const logRequest = fetchRequestLogging(logger)
+
+    const response = await logRequest(
+      new Request('http://localhost/orders?page=2', { method: 'POST', headers: { 'user-agent': 'bun' } }),
+      () => {
+        expect(getLogContext()?.requestId).toBeDefined()
+        logger.info('Creating order')
+        return new Response('created', { status: 201, headers: { 'content-length': '7' } })
+      },
+      { route: '/orders', ip: '10.1.2.3' }
+    )
+    await expect(
+      logRequest(new Request('http://localhost/fail'), () => {
+        throw new Error('Handler crashed')
+      })
+    ).rejects.toThrow('Handler crashed')
+    await shutdown()
+
+    const requestId = response.headers.get('x-request-id')
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/)
+    const [created, ...access] = readEntries(logName)
+    expect(created.requestId).toBe(requestId)
+    expect(access).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        message: 'POST /orders?page=2 201',
+        route: '/orders',
+        bytes: 7,
+        ip: '10.1.2.3',
+        userAgent: 'bun',
+        requestId,
+      }),
+      expect.objectContaining({ level: 'error', message: 'GET /fail 500' }),
+    ])
+  })
+})
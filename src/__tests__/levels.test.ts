@@ -0,0 +1,243 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { defaultLevels, extremeLevel, levelSchemes, resolveLevel, toWinstonLevels } from '../levels'
+import { createLogger } from '../log-facotry'
+import { TEST_LOG_DIR } from './helpers'
+
+const captureStdout = (fn: () => void): string => {
+  let capturedOutput = ''
+  const originalWrite = process.stdout.write
+  process.stdout.write = (str: string | Uint8Array) => {
+    capturedOutput += str
+    return true
+  }
+  try {
+    fn()
+  } finally {
+    process.stdout.write = originalWrite
+  }
+  return capturedOutput
+}
+
+describe('level helpers', () => {
+  test('converts definitions to winston severities', () => {
+    expect(toWinstonLevels({ fatal: { severity: 0 }, info: { severity: 3 } })).toEqual({
+      fatal: 0,
+      info: 3,
+    })
+  })
+
+  test('resolves routing levels and extremes', () => {
+    const levels = { fatal: { severity: 0 }, warning: { severity: 1 }, trace: { severity: 9 } }
+    expect(resolveLevel(levels, ['warn', 'warning'])).toBe('warning')
+    expect(resolveLevel(levels, ['error'])).toBeUndefined()
+    expect(extremeLevel(levels, 'most')).toBe('fatal')
+    expect(extremeLevel(levels, 'least')).toBe('trace')
+    expect(extremeLevel(defaultLevels, 'most')).toBe('error')
+  })
+})
+
+describe('custom levels', () => {
+  test('creates methods for every defined level', async () => {
+    const logName = 'test-custom-levels'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      levels: {
+        fatal: { severity: 0, color: 'bold red' },
+        audit: { severity: 1, color: 'magenta' },
+        http: { severity: 2 },
+        trace: { severity: 3 },
+      },
+      level: 'http',
+      separateErrorLog: true,
+    })
+
+    logger.fatal('Out of memory')
+    logger.audit('Role granted')
+    logger.http('GET /health')
+    logger.trace('Not recorded')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const logDir = path.join(TEST_LOG_DIR, logName)
+    const allContent = fs.readFileSync(path.join(logDir, `${logName}-All.log`), 'utf-8')
+    const errorContent = fs.readFileSync(path.join(logDir, `${logName}-error.log`), 'utf-8')
+
+    expect(allContent).toContain('FATAL: Out of memory')
+    expect(allContent).toContain('AUDIT: Role granted')
+    expect(allContent).toContain('HTTP: GET /health')
+    expect(allContent).not.toContain('Not recorded')
+    expect(errorContent).toContain('FATAL: Out of memory')
+    expect(errorContent).not.toContain('Role granted')
+  })
+
+  test('extends the default levels', () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      levels: { ...defaultLevels, security: { severity: 1, color: 'red' } },
+      level: 'security',
+    })
+    expect(logger.levels).toMatchObject({ error: 0, security: 1 })
+    expect(typeof logger.security).toBe('function')
+  })
+
+  test('falls back when the environment default level is not defined', () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      levels: { fatal: { severity: 0 }, trace: { severity: 1 } },
+    })
+    expect(logger.level).toBe('trace')
+  })
+
+  test('rejects unknown levels', () => {
+    expect(() =>
+      createLogger({
+        logDirectory: TEST_LOG_DIR,
+        levels: { fatal: { severity: 0 } },
+        level: 'info' as 'fatal',
+      })
+    ).toThrow('Unknown log level: info')
+  })
+
+  test('applies colors per logger', () => {
+    const options = {
+      logDirectory: TEST_LOG_DIR,
+      enableConsoleLogging: true,
+      enableFileLogging: false,
+      prettyPrint: false,
+      colorize: true,
+    }
+    const redLogger = createLogger({ ...options, levels: { notice: { severity: 0, color: 'red' } } })
+    const blueLogger = createLogger({ ...options, levels: { notice: { severity: 0, color: 'blue' } } })
+
+    const redOutput = captureStdout(() => redLogger.notice('Red notice'))
+    const blueOutput = captureStdout(() => blueLogger.notice('Blue notice'))
+
+    expect(redOutput).toContain('\u001b[31mRed notice\u001b[39m')
+    expect(blueOutput).toContain('\u001b[34mBlue notice\u001b[39m')
+  })
+})
+
+describe('level schemes', () => {
+  const readLogs = (logName: string) => {
+    const logDir = path.join(TEST_LOG_DIR, logName)
+    const read = (suffix: string) => {
+      const filePath = path.join(logDir, `${logName}${suffix}`)
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : ''
+    }
+    return { all: read('-All.log'), error: read('-error.log'), warn: read('-warn.log') }
+  }
+
+  test('orders the default levels by standard severity', () => {
+    expect(Object.keys(defaultLevels).sort(
+      (a, b) => defaultLevels[a as keyof typeof defaultLevels].severity - defaultLevels[b as keyof typeof defaultLevels].severity
+    )).toEqual(['error', 'warn', 'info', 'data', 'debug', 'verbose', 'silly'])
+    expect(levelSchemes.npm).toBe(defaultLevels)
+  })
+
+  test('routes each default level to the expected files', async () => {
+    const logName = 'test-routing'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      level: 'silly',
+      separateErrorLog: true,
+      separateWarnLog: true,
+    })
+
+    const levels = ['error', 'warn', 'info', 'data', 'debug', 'verbose', 'silly'] as const
+    for (const level of levels) {
+      logger[level](`${level} entry`)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const { all, error, warn } = readLogs(logName)
+    const expected: Record<(typeof levels)[number], { error: boolean; warn: boolean }> = {
+      error: { error: true, warn: true },
+      warn: { error: false, warn: true },
+      info: { error: false, warn: false },
+      data: { error: false, warn: false },
+      debug: { error: false, warn: false },
+      verbose: { error: false, warn: false },
+      silly: { error: false, warn: false },
+    }
+    for (const level of levels) {
+      expect(all).toContain(`${level} entry`)
+      expect(error.includes(`${level} entry`)).toBe(expected[level].error)
+      expect(warn.includes(`${level} entry`)).toBe(expected[level].warn)
+    }
+  })
+
+  test('level warn excludes debug entries', async () => {
+    const logName = 'test-warn-threshold'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      level: 'warn',
+      separateWarnLog: true,
+    })
+
+    logger.warn('warn entry')
+    logger.info('info entry')
+    logger.debug('debug entry')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const { all, warn } = readLogs(logName)
+    expect(all).toContain('warn entry')
+    expect(all).not.toContain('info entry')
+    expect(all).not.toContain('debug entry')
+    expect(warn).not.toContain('debug entry')
+  })
+
+  test('legacy scheme keeps debug above warn', async () => {
+    const logName = 'test-legacy'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      levelScheme: 'legacy',
+      level: 'warn',
+      separateWarnLog: true,
+    })
+
+    logger.debug('debug entry')
+    logger.info('info entry')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const { all, warn } = readLogs(logName)
+    expect(all).toContain('debug entry')
+    expect(all).not.toContain('info entry')
+    expect(warn).toContain('debug entry')
+  })
+
+  test('syslog scheme routes by syslog severity', async () => {
+    const logName = 'test-syslog'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      levelScheme: 'syslog',
+      level: 'info',
+      separateErrorLog: true,
+      separateWarnLog: true,
+    })
+
+    logger.crit('crit entry')
+    logger.warning('warning entry')
+    logger.notice('notice entry')
+    logger.debug('debug entry')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const { all, error, warn } = readLogs(logName)
+    expect(error).toContain('crit entry')
+    expect(error).not.toContain('warning entry')
+    expect(warn).toContain('warning entry')
+    expect(warn).not.toContain('notice entry')
+    expect(all).toContain('notice entry')
+    expect(all).not.toContain('debug entry')
+  })
+})
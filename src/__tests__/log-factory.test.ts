@@ -1,11 +1,13 @@
-import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test";
 import * as fs from "fs";
 import * as path from "path";
 import * as winston from 'winston';
 import {
+    createChildLogger,
     createLogger,
     createSimpleLogger
 } from "../log-facotry";
+import { shutdown } from '../registry';
 import type { Environment } from '../types';
 import { MB } from '../utils';
 
@@ -27,6 +29,11 @@ describe("Logger Factory", () => {
     fs.mkdirSync(TEST_LOG_DIR, { recursive: true });
   });
 
+  afterEach(async () => {
+    // Close file transports so the next test can remove their files
+    await shutdown();
+  });
+
   afterAll(() => {
     // Clean up after all tests
     if (fs.existsSync(TEST_LOG_DIR)) {
@@ -156,6 +163,7 @@ describe("Logger Factory", () => {
       logDirectory: TEST_LOG_DIR,
       logName,
       prettyPrint: true,
+      prettyTheme: 'doge',
       enableConsoleLogging: true,
       level: 'info'
     });
@@ -244,6 +252,120 @@ describe("Logger Factory", () => {
     expect(capturedOutput).toBe("");
   });
 
+  test("collapses identical consecutive console lines", async () => {
+    const logName = 'test-collapse'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      prettyPrint: false,
+      colorize: false,
+      enableConsoleLogging: true,
+      collapseRepeats: { window: 50 },
+      level: 'info'
+    });
+
+    let capturedOutput = "";
+    const originalWrite = process.stdout.write;
+    process.stdout.write = (str: string | Uint8Array) => {
+      capturedOutput += str;
+      return true;
+    };
+
+    for (let i = 0; i < 38; i++) {
+      logger.info("Retrying connection");
+    }
+    logger.info("Connected");
+    for (let i = 0; i < 3; i++) {
+      logger.warn("Slow query");
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+    process.stdout.write = originalWrite;
+
+    expect(capturedOutput.split(/\r?\n/).filter(Boolean)).toEqual([
+      "Retrying connection",
+      "Retrying connection (repeated 37×)",
+      "Connected",
+      "Slow query",
+      "Slow query (repeated 2×)",
+    ]);
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    const fileContent = fs.readFileSync(path.join(TEST_LOG_DIR, logName, `${logName}-All.log`), 'utf-8');
+    expect(fileContent.match(/Retrying connection/g)).toHaveLength(38);
+  });
+
+  test("collapses console lines rendered by a custom format", async () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'test-collapse-custom',
+      enableFileLogging: false,
+      enableConsoleLogging: true,
+      customFormat: winston.format.printf((info) => `custom ${info.level} ${info.message}`),
+      collapseRepeats: { window: 50 },
+      level: 'info'
+    });
+
+    let capturedOutput = "";
+    const originalWrite = process.stdout.write;
+    process.stdout.write = (str: string | Uint8Array) => {
+      capturedOutput += str;
+      return true;
+    };
+    try {
+      for (let i = 0; i < 4; i++) {
+        logger.info("Polling");
+      }
+      logger.info("Done");
+      await new Promise(resolve => setTimeout(resolve, 100));
+    } finally {
+      process.stdout.write = originalWrite;
+    }
+
+    expect(capturedOutput.split(/\r?\n/).filter(Boolean)).toEqual([
+      "custom info Polling",
+      "custom info Polling (repeated 3×)",
+      "custom info Done",
+    ]);
+  });
+
+  test("prints held back repeats on shutdown through the console transport", async () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'test-collapse-shutdown',
+      prettyPrint: false,
+      colorize: false,
+      enableFileLogging: false,
+      enableConsoleLogging: true,
+      collapseRepeats: { window: 60000 },
+      level: 'info'
+    });
+
+    let stdout = "";
+    let stderr = "";
+    const originalStdout = process.stdout.write;
+    const originalStderr = process.stderr.write;
+    process.stdout.write = (str: string | Uint8Array) => {
+      stdout += str;
+      return true;
+    };
+    process.stderr.write = (str: string | Uint8Array) => {
+      stderr += str;
+      return true;
+    };
+    try {
+      for (let i = 0; i < 3; i++) {
+        logger.error("Disk full");
+      }
+      await shutdown();
+    } finally {
+      process.stdout.write = originalStdout;
+      process.stderr.write = originalStderr;
+    }
+
+    const lines = `${stdout}${stderr}`.split(/\r?\n/).filter(Boolean);
+    expect(lines).toEqual(["Disk full", "Disk full (repeated 2×)"]);
+  });
+
   test("handles JSON logging correctly", async () => {
     const logName = 'test-json'
     const logger = createLogger({
@@ -276,6 +398,172 @@ describe("Logger Factory", () => {
     expect(logContent).toContain("login");
   });
 
+  test("writes structured entries in json file mode", async () => {
+    const logName = 'test-ndjson'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableFileLogging: true,
+      fileOutputFormat: 'ndjson',
+      level: 'info'
+    });
+
+    const error = Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' });
+    logger.info('User logged in', { userId: 123, roles: ['admin'] });
+    logger.error('Query failed', { error });
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const allLogsPath = path.join(TEST_LOG_DIR, logName, `${logName}-All.log`)
+    const lines = fs.readFileSync(allLogsPath, "utf-8").trim().split('\n');
+    const [infoEntry, errorEntry] = lines.map((line) => JSON.parse(line));
+
+    expect(lines).toHaveLength(2);
+    expect(infoEntry).toMatchObject({
+      level: 'info',
+      logName,
+      message: 'User logged in',
+      userId: 123,
+      roles: ['admin']
+    });
+    expect(Number.isNaN(Date.parse(infoEntry.timestamp))).toBe(false);
+    expect(errorEntry.error).toMatchObject({
+      name: 'Error',
+      message: 'Connection timeout',
+      code: 'ETIMEDOUT'
+    });
+    expect(errorEntry.error.stack).toContain('Connection timeout');
+  });
+
+  test("honors timestampFormat and timezone in log files", async () => {
+    const logName = 'test-timestamp'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      timestampFormat: 'YYYY-MM-DD HH:mm:ss ZZ',
+      timezone: 'UTC',
+      level: 'info'
+    });
+
+    logger.info('Timestamped message');
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const allLogsPath = path.join(TEST_LOG_DIR, logName, `${logName}-All.log`)
+    const content = fs.readFileSync(allLogsPath, "utf-8");
+
+    expect(content).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} \+00:00 INFO: Timestamped message/);
+  });
+
+  describe('Child Loggers', () => {
+    test('renders bound context in text log files', async () => {
+      const logName = 'test-child'
+      const logger = createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName,
+        level: 'info'
+      })
+      const requestLogger = createChildLogger(logger, { requestId: 'req-1', tenant: 'acme corp' })
+      const dbLogger = createChildLogger(requestLogger, { module: 'db' })
+
+      requestLogger.info('Handling request')
+      dbLogger.info('Running query', { table: 'users' })
+
+      await new Promise((resolve) => setTimeout(resolve, 500))
+
+      const allLogsPath = path.join(TEST_LOG_DIR, logName, `${logName}-All.log`)
+      const content = fs.readFileSync(allLogsPath, 'utf-8')
+
+      expect(content).toContain('INFO: Handling request requestId=req-1 tenant="acme corp"')
+      expect(content).toContain('INFO: Running query requestId=req-1 tenant="acme corp" module=db table=users')
+    })
+
+    test('renders bound context on the console', () => {
+      const plainLogger = createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName: 'test-child-console',
+        enableConsoleLogging: true,
+        enableFileLogging: false,
+        prettyPrint: false,
+        colorize: false,
+        level: 'info'
+      })
+      const prettyLogger = createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName: 'test-child-pretty',
+        enableConsoleLogging: true,
+        enableFileLogging: false,
+        prettyPrint: true,
+        prettyTheme: 'doge',
+        colorize: false,
+        level: 'info'
+      })
+
+      let capturedOutput = ''
+      const originalWrite = process.stdout.write
+      process.stdout.write = (str: string | Uint8Array) => {
+        capturedOutput += str
+        return true
+      }
+
+      createChildLogger(plainLogger, { requestId: 'req-2' }).info('Plain message')
+      createChildLogger(prettyLogger, { requestId: 'req-3' }).info('Pretty message')
+
+      process.stdout.write = originalWrite
+
+      expect(capturedOutput).toContain('Plain message requestId=req-2')
+      expect(capturedOutput).toContain('Pretty message < wow "requestId" such "req-3" >')
+    })
+
+    test('includes bound context in json file entries', async () => {
+      const logName = 'test-child-json'
+      const logger = createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName,
+        fileOutputFormat: 'json',
+        level: 'info'
+      })
+
+      createChildLogger(logger, { requestId: 'req-4', module: 'http' }).info('Served')
+
+      await new Promise((resolve) => setTimeout(resolve, 500))
+
+      const allLogsPath = path.join(TEST_LOG_DIR, logName, `${logName}-All.log`)
+      const entry = JSON.parse(fs.readFileSync(allLogsPath, 'utf-8').trim())
+
+      expect(entry).toMatchObject({ message: 'Served', requestId: 'req-4', module: 'http' })
+    })
+
+    test('serializes errors with codes and causes in json file entries', async () => {
+      const logName = 'test-error-json'
+      const logger = createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName,
+        fileOutputFormat: 'json',
+        enableConsoleLogging: false,
+        level: 'info'
+      })
+      const cause = new Error('Socket hang up')
+      const error = Object.assign(new Error('Upstream failed', { cause } as ErrorOptions), { code: 'E_UPSTREAM' })
+
+      logger.error(error)
+      logger.error('Request failed', error)
+      createChildLogger(logger, { module: 'http' }).error(error)
+      await shutdown()
+
+      const errorLogPath = path.join(TEST_LOG_DIR, logName, `${logName}-error.log`)
+      const entries = fs.readFileSync(errorLogPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line))
+
+      expect(entries.map((entry) => entry.message)).toEqual(['Upstream failed', 'Request failed', 'Upstream failed'])
+      for (const entry of entries) {
+        expect(entry.error).toMatchObject({ name: 'Error', message: 'Upstream failed', code: 'E_UPSTREAM' })
+        expect(entry.error.stack).toContain('Upstream failed')
+        expect(entry.error.cause).toMatchObject({ message: 'Socket hang up' })
+      }
+      expect(entries[2].module).toBe('http')
+    })
+  })
+
   describe('Path Safety', () => {
     test('handles relative paths correctly', () => {
       const logger = createLogger({
@@ -342,6 +630,13 @@ describe("Logger Factory", () => {
       })).toThrow('Invalid environment: invalid')
     })
 
+    test('handles invalid timezone', () => {
+      expect(() => createLogger({
+        logDirectory: TEST_LOG_DIR,
+        timezone: 'Invalid/Zone'
+      })).toThrow('Invalid timezone: Invalid/Zone')
+    })
+
     test('handles file size limits', () => {
       const logger = createLogger({
         logDirectory: TEST_LOG_DIR,
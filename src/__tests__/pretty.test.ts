@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test'
+import { MESSAGE } from 'triple-beam'
+import { defaultLevels } from '../levels'
+import { prettyFormat } from '../pretty'
+
+const render = (info: Record<string, unknown>, options: { colorize?: boolean; logName?: string } = {}) => {
+  const format = prettyFormat({ levels: defaultLevels, logName: 'api', ...options })
+  const result = format.transform({ level: 'info', message: '', ...info }) as Record<string | symbol, unknown>
+  return String(result[MESSAGE])
+}
+
+const stripStack = (output: string) =>
+  output
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('at '))
+    .join('\n')
+
+describe('Pretty console renderer', () => {
+  test('aligns timestamp and level columns and adds tags', () => {
+    expect(render({ timestamp: '09:15:02.120', level: 'warn', message: 'Slow query', module: 'db' })).toBe(
+      '09:15:02.120 WARN    [api] [db] Slow query'
+    )
+    expect(render({ timestamp: '09:15:02.121', level: 'verbose', message: 'Details' }, { logName: undefined })).toBe(
+      '09:15:02.121 VERBOSE Details'
+    )
+  })
+
+  test('renders metadata YAML style', () => {
+    const output = render({
+      message: 'Loaded user',
+      user: { id: 7, roles: ['admin', 'dev'], address: { city: 'Berlin', zip: '10115' } },
+      items: [{ sku: 'a', qty: 1 }],
+      note: 'first\nsecond',
+      empty: '',
+      missing: null,
+      tags: [],
+    })
+
+    expect(output).toBe(
+      [
+        'INFO    [api] Loaded user',
+        '  user:',
+        '    id: 7',
+        '    roles:',
+        '      - admin',
+        '      - dev',
+        '    address:',
+        '      city: Berlin',
+        '      zip: "10115"',
+        '  items:',
+        '    - sku: a',
+        '      qty: 1',
+        '  note: |',
+        '    first',
+        '    second',
+        '  empty: ""',
+        '  missing: null',
+        '  tags: []',
+      ].join('\n')
+    )
+  })
+
+  test('renders JSON messages and circular references', () => {
+    const node: Record<string, unknown> = { name: 'root' }
+    node.self = node
+
+    expect(render({ message: JSON.stringify({ user: 'john' }), node })).toBe(
+      ['INFO    [api]', '  user: john', '  node:', '    name: root', '    self: [Circular]'].join('\n')
+    )
+  })
+
+  test('renders errors with stack frames, properties and cause chains', () => {
+    const cause = Object.assign(new Error('Gateway timeout'), { code: 'ETIMEDOUT' })
+    const error = new Error('Card declined', { cause } as ErrorOptions)
+    const output = render({ level: 'error', message: 'Charge failed', error })
+
+    expect(output).toContain('\n      at ')
+    expect(stripStack(output)).toBe(
+      [
+        'ERROR   [api] Charge failed',
+        '  error: Error: Card declined',
+        '    cause: Error: Gateway timeout',
+        '      code: ETIMEDOUT',
+      ].join('\n')
+    )
+  })
+
+  test('renders aggregated errors', () => {
+    const error = new AggregateError([new TypeError('a'), new RangeError('b')], 'Both failed')
+    expect(stripStack(render({ message: 'Batch failed', error }))).toBe(
+      [
+        'INFO    [api] Batch failed',
+        '  error: AggregateError: Both failed',
+        '    errors:',
+        '      - TypeError: a',
+        '      - RangeError: b',
+      ].join('\n')
+    )
+  })
+
+  test('colors levels, keys and values when colorize is on', () => {
+    const output = render({ level: 'error', message: 'Failed', count: 3 }, { colorize: true })
+    expect(output).toContain('\u001b[31mERROR  \u001b[39m')
+    expect(output).toContain('\u001b[36mcount\u001b[39m: \u001b[33m3\u001b[39m')
+    expect(render({ message: 'Plain', count: 3 })).not.toContain('\u001b[')
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createLogger } from '../log-facotry'
+import { createRedactor } from '../redact'
+import { shutdown } from '../registry'
+import { TEST_LOG_DIR } from './helpers'
+
+describe('createRedactor', () => {
+  test('masks exact key paths case-insensitively', () => {
+    const redact = createRedactor(['user.password', 'headers.authorization'])
+    expect(
+      redact({
+        user: { name: 'ann', password: 'hunter2' },
+        headers: { Authorization: 'Basic abc', accept: '*/*' },
+        password: 'top-level is not matched',
+      })
+    ).toEqual({
+      user: { name: 'ann', password: '[REDACTED]' },
+      headers: { Authorization: '[REDACTED]', accept: '*/*' },
+      password: 'top-level is not matched',
+    })
+  })
+
+  test('supports single and multi level wildcards', () => {
+    const redact = createRedactor({ paths: ['*.token', '**.secret'], censor: '***' })
+    expect(
+      redact({
+        token: 'root',
+        session: { token: 'abc', nested: { token: 'deep' } },
+        a: { b: [{ secret: 's1' }] },
+        secret: 's2',
+      })
+    ).toEqual({
+      token: 'root',
+      session: { token: '***', nested: { token: 'deep' } },
+      a: { b: [{ secret: '***' }] },
+      secret: '***',
+    })
+  })
+
+  test('masks built-in and custom patterns inside strings', () => {
+    const redact = createRedactor({
+      patterns: ['creditCard', 'bearerToken', 'email', /ssn:\d+/],
+    })
+    expect(redact('card 4111 1111 1111 1111 at 1700000000000')).toBe(
+      'card [REDACTED] at 1700000000000'
+    )
+    expect(redact({ header: 'Bearer eyJhbGciOi.abc-123' })).toEqual({
+      header: '[REDACTED]',
+    })
+    expect(redact(['mail ann@example.com', 'ssn:123456'])).toEqual([
+      'mail [REDACTED]',
+      '[REDACTED]',
+    ])
+  })
+
+  test('masks the message, stack, properties and cause of errors', () => {
+    const redact = createRedactor({ paths: ['**.password'], patterns: ['email'] })
+    const cause = Object.assign(new Error('Lookup of bob@example.com failed'), { password: 'cause-secret' })
+    const error = Object.assign(new TypeError('Invalid login for ann@example.com', { cause } as ErrorOptions), {
+      password: 'hunter2',
+      code: 'E_LOGIN',
+    })
+
+    const redacted = redact({ error }).error as TypeError & { password: string; code: string; cause: Error }
+    expect(redacted).toBeInstanceOf(TypeError)
+    expect(redacted.message).toBe('Invalid login for [REDACTED]')
+    expect(redacted.stack).not.toContain('ann@example.com')
+    expect(redacted.password).toBe('[REDACTED]')
+    expect(redacted.code).toBe('E_LOGIN')
+    expect(redacted.cause.message).toBe('Lookup of [REDACTED] failed')
+    expect((redacted.cause as Error & { password: string }).password).toBe('[REDACTED]')
+    expect(Object.keys(redacted)).toEqual(['password', 'code'])
+    expect(error.message).toBe('Invalid login for ann@example.com')
+    expect(error.password).toBe('hunter2')
+  })
+
+  test('replaces circular references instead of returning the unredacted original', () => {
+    const redact = createRedactor({ paths: ['**.password'], patterns: ['email'] })
+    const user: Record<string, unknown> = { email: 'ann@example.com', password: 'hunter2' }
+    user.self = user
+    const error = Object.assign(new Error('Login failed'), { password: 'hunter2' }) as Error & { context?: unknown }
+    error.context = { error }
+
+    const redacted = redact({ user, error })
+    expect(redacted.user).toEqual({ email: '[REDACTED]', password: '[REDACTED]', self: '[Circular]' })
+    const redactedError = redacted.error as Error & { password: string; context: { error: unknown } }
+    expect(redactedError.password).toBe('[REDACTED]')
+    expect(redactedError.context.error).toBe('[Circular]')
+    expect(JSON.stringify(redacted.user)).not.toContain('hunter2')
+  })
+
+  test('does not mutate the input', () => {
+    const input = { user: { password: 'hunter2' } }
+    createRedactor(['user.password'])(input)
+    expect(input.user.password).toBe('hunter2')
+  })
+})
+
+describe('redact option', () => {
+  test('masks metadata and JSON messages before transports see them', async () => {
+    const logName = 'test-redact'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableConsoleLogging: true,
+      prettyPrint: true,
+      prettyTheme: 'doge',
+      colorize: false,
+      level: 'info',
+      redact: { paths: ['user.password'], patterns: ['email'] },
+    })
+
+    let capturedOutput = ''
+    const originalWrite = process.stdout.write
+    process.stdout.write = (str: string | Uint8Array) => {
+      capturedOutput += str
+      return true
+    }
+
+    const user = { email: 'ann@example.com', password: 'hunter2' }
+    logger.info('Login attempt', { user })
+    logger.info(JSON.stringify({ user }))
+
+    process.stdout.write = originalWrite
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const allLogsPath = path.join(TEST_LOG_DIR, logName, `${logName}-All.log`)
+    const content = fs.readFileSync(allLogsPath, 'utf-8')
+
+    for (const output of [capturedOutput, content]) {
+      expect(output).not.toContain('hunter2')
+      expect(output).not.toContain('ann@example.com')
+    }
+    expect(capturedOutput).toContain('"user" such {"email":"[REDACTED]","password":"[REDACTED]"}')
+    expect(user.password).toBe('hunter2')
+  })
+
+  test('masks errors written to structured files', async () => {
+    const logName = 'test-redact-errors'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableConsoleLogging: false,
+      fileOutputFormat: 'json',
+      level: 'info',
+      redact: { paths: ['**.authorization', '**.password'], patterns: ['email'] },
+    })
+
+    const error = Object.assign(new Error('Request for ann@example.com failed'), {
+      config: { headers: { authorization: 'Bearer abc.def' } },
+      password: 'hunter2',
+    })
+    logger.error('Upstream call failed', error)
+    logger.error(error)
+    await shutdown()
+
+    const content = fs.readFileSync(path.join(TEST_LOG_DIR, logName, `${logName}-All.log`), 'utf-8')
+    for (const secret of ['ann@example.com', 'abc.def', 'hunter2']) {
+      expect(content).not.toContain(secret)
+    }
+    const [entry] = content.trim().split('\n').map((line) => JSON.parse(line))
+    expect(entry.error).toMatchObject({
+      message: 'Request for [REDACTED] failed',
+      config: { headers: { authorization: '[REDACTED]' } },
+      password: '[REDACTED]',
+    })
+  })
+})
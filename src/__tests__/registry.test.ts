@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import TransportStream from 'winston-transport'
+import { createLogger } from '../log-facotry'
+import { closeAll, getLogger, listLoggers, shutdown } from '../registry'
+import { listOpenLoggers } from '../runtime'
+import { logFilePath, readLines, TEST_LOG_DIR } from './helpers'
+
+describe('Logger registry', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('getLogger reuses one logger per name', () => {
+    const first = getLogger('registry-shared', { logDirectory: TEST_LOG_DIR })
+    const second = getLogger('registry-shared', { logDirectory: TEST_LOG_DIR, level: 'error' })
+    const other = getLogger('registry-other', { logDirectory: TEST_LOG_DIR })
+
+    expect(second).toBe(first)
+    expect(other).not.toBe(first)
+    expect(listLoggers()).toEqual(['registry-shared', 'registry-other'])
+  })
+
+  test('closeAll closes registered loggers and empties the registry', async () => {
+    const logger = getLogger('registry-close', { logDirectory: TEST_LOG_DIR })
+    logger.info('Before close')
+
+    await closeAll()
+
+    expect(listLoggers()).toEqual([])
+    expect(readLines(logFilePath('registry-close'))).toHaveLength(1)
+    expect(getLogger('registry-close', { logDirectory: TEST_LOG_DIR })).not.toBe(logger)
+  })
+
+  test('shutdown flushes buffered entries of every file transport', async () => {
+    const fileLogger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'registry-file',
+      separateErrorLog: true,
+    })
+    const dailyLogger = getLogger('registry-daily', {
+      logDirectory: TEST_LOG_DIR,
+      useDailyRotation: true,
+    })
+
+    for (let i = 0; i < 5000; i++) {
+      fileLogger.info(`File entry ${i}`)
+      dailyLogger.info(`Daily entry ${i}`)
+    }
+    fileLogger.error('Last error')
+
+    await shutdown()
+
+    const dailyDir = path.join(TEST_LOG_DIR, 'registry-daily')
+    const dailyFile = fs.readdirSync(dailyDir).find((file) => /registry-daily-\d{4}-\d{2}-\d{2}\.log$/.test(file))
+    expect(readLines(logFilePath('registry-file'))).toHaveLength(5001)
+    expect(readLines(logFilePath('registry-file', '-error.log'))).toHaveLength(1)
+    expect(readLines(path.join(dailyDir, dailyFile!))).toHaveLength(5000)
+    expect(listLoggers()).toEqual([])
+  })
+
+  test('shutdown waits for transports that implement flushed', async () => {
+    const delivered: string[] = []
+    class SlowTransport extends TransportStream {
+      private pending: string[] = []
+      private readonly done = new Promise<void>((resolve) => this.once('closed', () => resolve()))
+      log(info: { message: string }, callback: () => void) {
+        this.pending.push(info.message)
+        callback()
+      }
+      close() {
+        setTimeout(() => {
+          delivered.push(...this.pending)
+          this.emit('closed')
+        }, 50)
+      }
+      flushed() {
+        return this.done
+      }
+    }
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'registry-flushable',
+      enableFileLogging: false,
+      enableConsoleLogging: false,
+      customTransports: [new SlowTransport()],
+    })
+    logger.info('Delivered late')
+    await shutdown()
+
+    expect(delivered).toEqual(['Delivered late'])
+  })
+
+  test('entries logged after shutdown are dropped', async () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'registry-late' })
+    logger.info('Before shutdown')
+    await shutdown()
+
+    expect(() => logger.info('After shutdown')).not.toThrow()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(readLines(logFilePath('registry-late'))).toHaveLength(1)
+  })
+
+  test('reports transport errors after shutdown instead of throwing them', async () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'registry-errors', enableConsoleLogging: false })
+    await shutdown()
+
+    const reported: unknown[] = []
+    const originalError = console.error
+    console.error = (...args: unknown[]) => {
+      reported.push(args.join(' '))
+    }
+    try {
+      const error = Object.assign(new Error('ENOSPC: no space left on device'), { code: 'ENOSPC' })
+      expect(() => logger.emit('error', error)).not.toThrow()
+      expect(reported).toEqual([expect.stringContaining('Logger error: Error: ENOSPC: no space left on device')])
+
+      const handled: unknown[] = []
+      logger.on('error', (caught) => handled.push(caught))
+      logger.emit('error', error)
+      expect(handled).toEqual([error])
+      expect(reported).toHaveLength(1)
+    } finally {
+      console.error = originalError
+    }
+  })
+
+  test('does not keep loggers that were dropped without being closed', async () => {
+    const before = listOpenLoggers().length
+    ;(() => {
+      for (let index = 0; index < 20; index++) {
+        createLogger({
+          logDirectory: TEST_LOG_DIR,
+          logName: 'registry-dropped',
+          enableFileLogging: false,
+          enableConsoleLogging: false,
+        })
+      }
+    })()
+    expect(listOpenLoggers().length).toBe(before + 20)
+
+    for (let attempt = 0; attempt < 20 && listOpenLoggers().length > before; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      Bun.gc(true)
+    }
+    expect(listOpenLoggers().length).toBe(before)
+  })
+
+  test('shutdown resolves when there is nothing to close', async () => {
+    await shutdown()
+    await expect(shutdown({ timeout: 10 })).resolves.toBeUndefined()
+  })
+})
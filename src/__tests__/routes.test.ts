@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { defaultLevels, syslogLevels } from '../levels'
+import { createChildLogger, createLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { routeFormat, routeLevels } from '../routes'
+import type { LogRoute } from '../types'
+import { readEntries, TEST_LOG_DIR } from './helpers'
+
+const passes = (route: LogRoute<string>, entry: Record<string, unknown>) =>
+  routeFormat(defaultLevels, route).transform({ level: 'info', message: '', ...entry }) !== false
+
+describe('Log routes', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('resolves exact levels and severity ranges', () => {
+    expect([...routeLevels(defaultLevels, { file: '-warn-only.log', levels: ['warn'] })]).toEqual(['warn'])
+    expect([...routeLevels(defaultLevels, { file: '-problems.log', levels: { atLeast: 'warn' } })]).toEqual([
+      'error',
+      'warn',
+    ])
+    expect([...routeLevels(defaultLevels, { file: '-trace.log', levels: { atMost: 'verbose' } })]).toEqual([
+      'verbose',
+      'silly',
+    ])
+    expect([
+      ...routeLevels(syslogLevels, { file: '-ops.log', levels: { atLeast: 'warning', atMost: 'crit' } }),
+    ]).toEqual(['crit', 'error', 'warning'])
+    expect(routeLevels(defaultLevels, { file: '-all.log' }).size).toBe(Object.keys(defaultLevels).length)
+    expect(() => routeLevels(defaultLevels, { file: '-audit.log', levels: ['notice'] })).toThrow(
+      'Unknown log level in route -audit.log: notice'
+    )
+  })
+
+  test('matches levels, modules and predicates', () => {
+    const route: LogRoute<string> = {
+      file: '-payments.log',
+      levels: ['info', 'error'],
+      module: ['billing', 'refunds'],
+      filter: (entry) => entry.amount !== undefined,
+    }
+    expect(passes(route, { module: 'billing', amount: 10 })).toBe(true)
+    expect(passes(route, { level: 'error', module: 'refunds', amount: 5 })).toBe(true)
+    expect(passes(route, { level: 'warn', module: 'billing', amount: 10 })).toBe(false)
+    expect(passes(route, { module: 'db', amount: 10 })).toBe(false)
+    expect(passes(route, { amount: 10 })).toBe(false)
+    expect(passes(route, { module: 'billing' })).toBe(false)
+  })
+
+  test('treats entries a throwing filter rejects as not matched and reports the error once', () => {
+    const route: LogRoute<string> = {
+      file: '-orders.log',
+      filter: (entry) => (entry.order as { id: string }).id.startsWith('A'),
+    }
+    const format = routeFormat(defaultLevels, route)
+
+    const reported: unknown[] = []
+    const originalError = console.error
+    console.error = (...args: unknown[]) => {
+      reported.push(args.join(' '))
+    }
+    try {
+      expect(format.transform({ level: 'info', message: 'No order' })).toBe(false)
+      expect(format.transform({ level: 'info', message: 'Still no order' })).toBe(false)
+      expect(format.transform({ level: 'info', message: 'Order', order: { id: 'A1' } })).not.toBe(false)
+      expect(reported).toEqual([expect.stringContaining('Route -orders.log filter failed: TypeError')])
+    } finally {
+      console.error = originalError
+    }
+  })
+
+  test('rejects file suffixes outside the log directory or used by the logger', () => {
+    expect(() => routeFormat(defaultLevels, { file: '-../../etc/passwd.log' })).toThrow(
+      'Invalid route file: -../../etc/passwd.log'
+    )
+    expect(() => routeFormat(defaultLevels, { file: '-error.log' })).toThrow('Invalid route file: -error.log')
+    expect(() =>
+      createLogger({
+        logDirectory: TEST_LOG_DIR,
+        logName: 'routes-duplicate',
+        enableConsoleLogging: false,
+        routes: [{ file: '-audit.log' }, { file: '-audit.log', levels: ['error'] }],
+      })
+    ).toThrow('Duplicate route file: -audit.log')
+  })
+
+  test('writes each route to a file of its own', async () => {
+    const logName = 'routes-files'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableConsoleLogging: false,
+      fileOutputFormat: 'json',
+      level: 'debug',
+      routes: [
+        { file: '-warn-only.log', levels: ['warn'] },
+        { file: '-payments.log', module: 'billing' },
+        { file: '-audit.log', filter: (entry) => entry.audit === true },
+      ],
+    })
+    const billing = createChildLogger(logger, { module: 'billing' })
+
+    logger.error('Disk full')
+    logger.warn('Slow query')
+    billing.warn('Card declined', { orderId: 42 })
+    billing.debug('Charging card')
+    logger.info('Role changed', { audit: true, userId: 7 })
+    await shutdown()
+
+    expect(readEntries(logName, '-warn-only.log').map((entry) => entry.message)).toEqual([
+      'Slow query',
+      'Card declined',
+    ])
+    expect(readEntries(logName, '-payments.log').map((entry) => entry.message)).toEqual([
+      'Card declined',
+      'Charging card',
+    ])
+    expect(readEntries(logName, '-audit.log')).toEqual([
+      expect.objectContaining({ level: 'info', message: 'Role changed', userId: 7, logName }),
+    ])
+    expect(readEntries(logName, '-All.log')).toHaveLength(5)
+  })
+
+  test('rotates routed files daily with daily rotation', async () => {
+    const logName = 'routes-daily'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableConsoleLogging: false,
+      useDailyRotation: true,
+      routes: [{ file: '-audit.log', levels: { atLeast: 'warn' } }],
+    })
+    logger.warn('Rotated')
+    await shutdown()
+
+    const files = fs.readdirSync(path.join(TEST_LOG_DIR, logName))
+    expect(files).toContainEqual(expect.stringMatching(new RegExp(`^${logName}-audit-\\d{4}-\\d{2}-\\d{2}\\.log$`)))
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as winston from 'winston'
+import { createChildLogger, createLogger } from '../log-facotry'
+import { getLevel, setLevel, setModuleLevel } from '../runtime'
+import { logFilePath, TEST_LOG_DIR } from './helpers'
+
+const readAllLogs = (logName: string) => fs.readFileSync(logFilePath(logName), 'utf-8')
+
+describe('Runtime level control', () => {
+  test('setLevel changes the level of a running logger and its children', async () => {
+    const logName = 'test-set-level'
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName, level: 'info' })
+    const child = createChildLogger(logger, { requestId: 'req-1' })
+
+    child.debug('Before change')
+    setLevel(child, 'debug')
+    child.debug('After change')
+    logger.debug('Root after change')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const content = readAllLogs(logName)
+    expect(content).not.toContain('Before change')
+    expect(content).toContain('After change')
+    expect(content).toContain('Root after change')
+    expect(logger.level).toBe('debug')
+    expect(getLevel(logger)).toBe('debug')
+  })
+
+  test('moduleLevels override the level for one module', async () => {
+    const logName = 'test-module-levels'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      level: 'info',
+      moduleLevels: { db: 'debug', http: 'warn' },
+    })
+    const dbLogger = createChildLogger(logger, { module: 'db' })
+    const httpLogger = createChildLogger(logger, { module: 'http' })
+
+    logger.debug('Root debug')
+    dbLogger.debug('Db debug')
+    httpLogger.info('Http info')
+    httpLogger.warn('Http warn')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const content = readAllLogs(logName)
+    expect(content).not.toContain('Root debug')
+    expect(content).toContain('Db debug')
+    expect(content).not.toContain('Http info')
+    expect(content).toContain('Http warn')
+    expect(getLevel(logger, 'db')).toBe('debug')
+    expect(getLevel(logger, 'cache')).toBe('info')
+  })
+
+  test('treats prototype keys as ordinary module names', async () => {
+    const logName = 'test-prototype-modules'
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName, level: 'info' })
+    const constructorLogger = createChildLogger(logger, { module: 'constructor' })
+    const toStringLogger = createChildLogger(logger, { module: 'toString' })
+
+    expect(() => constructorLogger.info('Constructor info')).not.toThrow()
+    expect(() => toStringLogger.info('ToString info')).not.toThrow()
+    toStringLogger.debug('ToString debug')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const content = readAllLogs(logName)
+    expect(content).toContain('Constructor info')
+    expect(content).toContain('ToString info')
+    expect(content).not.toContain('ToString debug')
+    expect(getLevel(logger, 'toString')).toBe('info')
+    expect(getLevel(logger, 'constructor')).toBe('info')
+  })
+
+  test('setModuleLevel raises and clears verbosity without new transports', async () => {
+    const logName = 'test-set-module-level'
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName, level: 'info' })
+    const transports = [...logger.transports]
+    const cacheLogger = createChildLogger(logger, { module: 'cache' })
+
+    setModuleLevel(logger, 'cache', 'silly')
+    cacheLogger.silly('Cache silly')
+    logger.debug('Root debug')
+    setModuleLevel(logger, 'cache', undefined)
+    cacheLogger.silly('Cache silly cleared')
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    const content = readAllLogs(logName)
+    expect(content).toContain('Cache silly')
+    expect(content).not.toContain('Root debug')
+    expect(content).not.toContain('Cache silly cleared')
+    expect(logger.level).toBe('info')
+    expect(logger.transports).toEqual(transports)
+  })
+
+  test('rejects unknown levels', () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, level: 'info' })
+    expect(() => setLevel(logger, 'loud' as 'info')).toThrow('Unknown log level: loud')
+    expect(() => setModuleLevel(logger, 'db', 'loud' as 'info')).toThrow('Unknown log level: loud')
+    expect(() =>
+      createLogger({ logDirectory: TEST_LOG_DIR, moduleLevels: { db: 'loud' as 'info' } })
+    ).toThrow('Unknown log level: loud')
+  })
+
+  test('setLevel works with plain winston loggers', () => {
+    const logger = winston.createLogger({ level: 'info' })
+    setLevel(logger, 'debug')
+    expect(logger.level).toBe('debug')
+    expect(() => setModuleLevel(logger, 'db', 'debug')).toThrow(
+      'Module levels require a logger created by createLogger'
+    )
+  })
+})
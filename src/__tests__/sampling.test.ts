@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { createChildLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { createTestLogger, logFilePath, readLines } from './helpers'
+
+describe('Sampling and rate limiting', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('rates keep 1 in N entries of a level', async () => {
+    const logName = 'test-sampling-rates'
+    const logger = createTestLogger(logName, { sampling: { rates: { debug: 10 } } })
+
+    for (let i = 0; i < 100; i++) {
+      logger.debug(`Debug ${i}`)
+    }
+    logger.info('Info is not sampled')
+    await shutdown()
+
+    const lines = readLines(logFilePath(logName))
+    expect(lines.filter((line) => line.includes('DEBUG'))).toHaveLength(10)
+    expect(lines.some((line) => line.includes('DEBUG: Debug 0'))).toBe(true)
+    expect(lines.some((line) => line.includes('DEBUG: Debug 10'))).toBe(true)
+    expect(lines.some((line) => line.includes('DEBUG: Debug 1 '))).toBe(false)
+    expect(lines.some((line) => line.includes('Info is not sampled'))).toBe(true)
+  })
+
+  test('rateLimit suppresses identical messages and logs a summary', async () => {
+    const logName = 'test-sampling-limit'
+    const logger = createTestLogger(logName, {
+      sampling: { rateLimit: { max: 3, interval: 50 } },
+    })
+
+    for (let i = 0; i < 1000; i++) {
+      logger.error('Payment service unavailable', { attempt: i })
+    }
+    logger.error('Another failure')
+    await new Promise((resolve) => setTimeout(resolve, 150))
+
+    const errors = readLines(logFilePath(logName, '-error.log'))
+    expect(errors.filter((line) => line.includes('ERROR: Payment service unavailable'))).toHaveLength(3)
+    expect(errors.some((line) => line.includes('Another failure'))).toBe(true)
+    const summary = errors.find((line) => line.includes('Suppressed'))
+    expect(summary).toContain('ERROR: Suppressed 997 similar messages: Payment service unavailable')
+    expect(summary).toContain('suppressed=997')
+  })
+
+  test('sampleKey groups messages with different text', async () => {
+    const logName = 'test-sampling-key'
+    const logger = createTestLogger(logName, {
+      sampling: { rateLimit: { max: 2, interval: 60_000 } },
+    })
+
+    for (let i = 0; i < 10; i++) {
+      logger.warn(`Request ${i} timed out`, { sampleKey: 'upstream-timeout' })
+      logger.warn(`Unrelated ${i}`)
+    }
+    await shutdown()
+
+    const lines = readLines(logFilePath(logName))
+    expect(lines.filter((line) => line.includes('WARN: Request'))).toHaveLength(2)
+    expect(lines.filter((line) => line.includes('Unrelated'))).toHaveLength(10)
+    expect(lines.filter((line) => line.includes('Suppressed'))).toEqual([
+      expect.stringContaining('WARN: Suppressed 8 similar messages: Request 0 timed out sampleKey=upstream-timeout'),
+    ])
+  })
+
+  test('rateLimit levels restrict which levels are limited', async () => {
+    const logName = 'test-sampling-levels'
+    const logger = createTestLogger(logName, {
+      sampling: { rateLimit: { max: 1, levels: ['error'] } },
+    })
+    const child = createChildLogger(logger, { module: 'billing' })
+
+    for (let i = 0; i < 5; i++) {
+      child.info('Same info')
+      child.error('Same error')
+    }
+    await shutdown()
+
+    const lines = readLines(logFilePath(logName))
+    expect(lines.filter((line) => line.includes('Same info'))).toHaveLength(5)
+    expect(lines.filter((line) => line.includes('ERROR: Same error'))).toHaveLength(1)
+    expect(lines.find((line) => line.includes('Suppressed 4 similar messages'))).toContain('module=billing')
+  })
+
+  test('rejects unknown levels and invalid rates', () => {
+    expect(() =>
+      createTestLogger('test-sampling-invalid', { sampling: { rates: { trace: 2 } as never } })
+    ).toThrow('Unknown log level in sampling options: trace')
+    expect(() =>
+      createTestLogger('test-sampling-invalid', { sampling: { rates: { debug: 0.5 } } })
+    ).toThrow('Sampling rate for debug must be a positive integer')
+    expect(() =>
+      createTestLogger('test-sampling-invalid', { sampling: { rateLimit: { max: 0 } } })
+    ).toThrow('Sampling rateLimit.max must be a positive integer')
+  })
+})
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import * as dgram from 'dgram'
+import * as fs from 'fs'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { defaultLevels, syslogLevels } from '../levels'
+import { createChildLogger, createLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { syslogSeverities } from '../syslog'
+import type { LoggerOptions } from '../types'
+import { TEST_LOG_DIR } from './helpers'
+
+const HEADER = /^<(\d+)>1 (\S+) (\S+) (\S+) (\d+) (\S+) - (.*)$/s
+
+const createSyslogLogger = (logName: string, syslog: LoggerOptions['syslog'], options: Partial<LoggerOptions> = {}) =>
+  createLogger({
+    logDirectory: TEST_LOG_DIR,
+    logName,
+    enableFileLogging: false,
+    enableConsoleLogging: false,
+    level: 'debug',
+    syslog,
+    ...options,
+  })
+
+/** Starts a stream server collecting everything it receives */
+const listen = async (address: { port: number } | { path: string }) => {
+  const received: Buffer[] = []
+  const closed: Promise<void>[] = []
+  const server = net.createServer((socket) => {
+    socket.on('data', (chunk) => received.push(chunk))
+    closed.push(new Promise((resolve) => socket.on('close', () => resolve())))
+  })
+  await new Promise<void>((resolve) =>
+    'path' in address ? server.listen(address.path, resolve) : server.listen(address.port, '127.0.0.1', resolve)
+  )
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    text: async () => {
+      await Promise.all(closed)
+      await new Promise((resolve) => server.close(resolve))
+      return Buffer.concat(received).toString()
+    },
+  }
+}
+
+describe('Syslog output', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('maps levels to syslog severities', () => {
+    expect(syslogSeverities(defaultLevels)).toEqual({
+      error: 3,
+      warn: 4,
+      info: 6,
+      data: 6,
+      debug: 7,
+      verbose: 7,
+      silly: 7,
+    })
+    expect(Object.values(syslogSeverities(syslogLevels))).toEqual([0, 1, 2, 3, 4, 5, 6, 7])
+    expect(syslogSeverities({ audit: { severity: 0 } }, { audit: 5 })).toEqual({ audit: 5 })
+    expect(() => syslogSeverities({ audit: { severity: 0 } })).toThrow('No syslog severity for log level: audit')
+  })
+
+  test('sends RFC 5424 datagrams over UDP', async () => {
+    const server = dgram.createSocket('udp4')
+    await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve))
+    const messages: string[] = []
+    const received = new Promise<void>((resolve) =>
+      server.on('message', (message) => {
+        messages.push(message.toString())
+        if (messages.length === 2) {
+          resolve()
+        }
+      })
+    )
+
+    const logger = createSyslogLogger('test-syslog-udp', {
+      port: server.address().port,
+      facility: 'local0',
+      hostname: 'web 1',
+    })
+    logger.warn('Disk almost full', { usage: 0.93 })
+    createChildLogger(logger, { module: 'billing' }).error('Charge failed')
+    await received
+    await shutdown()
+    server.close()
+
+    const [warn, error] = messages.map((message) => HEADER.exec(message)!)
+    expect(warn[1]).toBe(String(16 * 8 + 4))
+    expect(new Date(warn[2]).toISOString()).toBe(warn[2])
+    expect(warn.slice(3, 7)).toEqual(['web_1', 'test-syslog-udp', String(process.pid), '-'])
+    expect(warn[7]).toBe('Disk almost full usage=0.93')
+    expect(error[1]).toBe(String(16 * 8 + 3))
+    expect(error[6]).toBe('billing')
+    expect(error[7]).toBe('Charge failed module=billing')
+  })
+
+  test('frames messages by octet counting over TCP', async () => {
+    const server = await listen({ port: 0 })
+    const logger = createSyslogLogger('test-syslog-tcp', {
+      protocol: 'tcp',
+      port: server.port,
+      appName: 'api',
+      facility: 4,
+    })
+    logger.info('Multi\nline ünïcode')
+    logger.debug('Second')
+    await shutdown()
+
+    const text = await server.text()
+    const frames: string[] = []
+    for (let rest = Buffer.from(text); rest.length > 0; ) {
+      const space = rest.indexOf(' ')
+      const length = Number(rest.subarray(0, space).toString())
+      frames.push(rest.subarray(space + 1, space + 1 + length).toString())
+      rest = rest.subarray(space + 1 + length)
+    }
+    expect(frames.map((frame) => HEADER.exec(frame)?.slice(1, 2).concat(HEADER.exec(frame)![7]))).toEqual([
+      [String(4 * 8 + 6), 'Multi\nline ünïcode'],
+      [String(4 * 8 + 7), 'Second'],
+    ])
+    expect(frames[0]).toContain(' api ')
+  })
+
+  test('writes newline framed messages to Unix stream sockets and reports failures', async () => {
+    const socketPath = path.join(os.tmpdir(), `loggerama-syslog-${process.pid}.sock`)
+    fs.rmSync(socketPath, { force: true })
+    const server = await listen({ path: socketPath })
+    const logger = createSyslogLogger(
+      'test-syslog-unix',
+      { protocol: 'unix', path: socketPath, severities: { audit: 5 } },
+      { levels: { audit: { severity: 0 }, trace: { severity: 1 } }, level: 'trace' }
+    )
+    logger.audit('User deleted\naccount 7')
+    await shutdown()
+
+    const lines = (await server.text()).split('\n')
+    expect(lines).toHaveLength(2)
+    expect(HEADER.exec(lines[0])?.[7]).toBe('User deleted account 7')
+    expect(lines[0].startsWith(`<${8 + 5}>1 `)).toBe(true)
+
+    const unreachable = createSyslogLogger('test-syslog-refused', { protocol: 'unix', path: socketPath })
+    const transport = unreachable.transports[0] as unknown as { stats: object; once: typeof unreachable.once }
+    const warned = new Promise((resolve) => transport.once('warn', resolve))
+    unreachable.info('Nobody listens')
+    expect(await warned).toBeInstanceOf(Error)
+    await shutdown()
+    expect(transport.stats).toEqual({ sent: 0, dropped: 1, queued: 0 })
+  })
+
+  test('rejects levels without a syslog severity', () => {
+    expect(() =>
+      createSyslogLogger('test-syslog-invalid', {}, { levels: { audit: { severity: 0 } }, level: 'audit' })
+    ).toThrow('No syslog severity for log level: audit')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test'
+import { createTimestampFormatter } from '../timestamp'
+
+const date = new Date('2024-03-01T14:05:09.042Z')
+
+describe('createTimestampFormatter', () => {
+  test('renders presets in UTC by default', () => {
+    expect(createTimestampFormatter({ format: 'iso' })(date)).toBe('2024-03-01T14:05:09.042Z')
+    expect(createTimestampFormatter({ format: 'rfc3339' })(date)).toBe(
+      '2024-03-01T14:05:09.042+00:00'
+    )
+    expect(createTimestampFormatter({ format: 'epoch-ms' })(date)).toBe(String(date.getTime()))
+  })
+
+  test('renders presets with the offset of a timezone', () => {
+    expect(createTimestampFormatter({ format: 'iso', timezone: 'Asia/Kolkata' })(date)).toBe(
+      '2024-03-01T19:35:09.042+05:30'
+    )
+    expect(
+      createTimestampFormatter({ format: 'rfc3339', timezone: 'America/New_York' })(date)
+    ).toBe('2024-03-01T09:05:09.042-05:00')
+  })
+
+  test('renders token patterns', () => {
+    const format = createTimestampFormatter({
+      format: 'YYYY-MM-DD HH:mm:ss.SSS [at] h:mm A ZZ',
+      timezone: 'UTC',
+    })
+    expect(format(date)).toBe('2024-03-01 14:05:09.042 at 2:05 PM +00:00')
+    expect(createTimestampFormatter({ format: 'DD/MMM/YYYY:HH:mm:ss', timezone: 'UTC' })(date)).toBe(
+      '01/Mar/2024:14:05:09'
+    )
+  })
+
+  test('applies daylight saving offsets', () => {
+    const format = createTimestampFormatter({ format: 'YYYY-MM-DD HH:mm Z', timezone: 'Europe/Berlin' })
+    expect(format(new Date('2024-01-15T12:00:00Z'))).toBe('2024-01-15 13:00 +01:00')
+    expect(format(new Date('2024-07-15T12:00:00Z'))).toBe('2024-07-15 14:00 +02:00')
+  })
+
+  test('falls back to the locale format in the given timezone', () => {
+    expect(createTimestampFormatter({ timezone: 'UTC', locale: 'en-US' })(date)).toBe(
+      '03/01/2024, 02:05:09 PM'
+    )
+  })
+
+  test('rejects invalid timezones', () => {
+    expect(() => createTimestampFormatter({ format: 'iso', timezone: 'Mars/Olympus' })).toThrow(
+      'Invalid timezone: Mars/Olympus'
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { shutdown } from '../registry'
+import { startTimer, withTiming } from '../timing'
+import { createJsonLogger, readEntries } from './helpers'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('Timing helpers', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('startTimer logs the duration as a structured field', async () => {
+    const logName = 'test-timing-timer'
+    const logger = createJsonLogger(logName)
+
+    const timer = startTimer(logger, 'Rebuilt index', { level: 'debug', context: { index: 'users' } })
+    await sleep(20)
+    expect(timer.elapsed()).toBeGreaterThanOrEqual(15)
+    const durationMs = timer.done({ documents: 3 })
+    await shutdown()
+
+    const [entry] = readEntries(logName)
+    expect(entry).toMatchObject({ level: 'debug', message: 'Rebuilt index', index: 'users', documents: 3, durationMs })
+    expect(entry.budgetMs).toBeUndefined()
+  })
+
+  test('escalates entries over budget', async () => {
+    const logName = 'test-timing-budget'
+    const logger = createJsonLogger(logName)
+
+    startTimer(logger, 'Fast', { budgetMs: 1000 }).done()
+    const slow = startTimer(logger, 'Slow', { budgetMs: 5 })
+    await sleep(20)
+    slow.done()
+    const critical = startTimer(logger, 'Slower', { budgetMs: 5, overBudgetLevel: 'error' })
+    await sleep(20)
+    critical.done()
+    await shutdown()
+
+    expect(readEntries(logName)).toEqual([
+      expect.objectContaining({ level: 'info', message: 'Fast' }),
+      expect.objectContaining({ level: 'warn', message: 'Slow', budgetMs: 5 }),
+      expect.objectContaining({ level: 'error', message: 'Slower', budgetMs: 5 }),
+    ])
+  })
+
+  test('withTiming times sync and async functions and rethrows errors', async () => {
+    const logName = 'test-timing-wrap'
+    const logger = createJsonLogger(logName, { levelScheme: 'syslog', level: 'debug' })
+
+    expect(withTiming(logger, 'Parsed', () => 42)).toBe(42)
+    const fetched = withTiming(
+      logger,
+      'Fetched',
+      async () => {
+        await sleep(20)
+        return 'data'
+      },
+      { budgetMs: 5 }
+    )
+    expect(await fetched).toBe('data')
+    await expect(
+      withTiming(logger, 'Failed', async () => {
+        throw new Error('Timeout')
+      })
+    ).rejects.toThrow('Timeout')
+    expect(() =>
+      withTiming(
+        logger,
+        'Validated',
+        () => {
+          throw new Error('Invalid')
+        },
+        { errorLevel: 'crit' }
+      )
+    ).toThrow('Invalid')
+    await shutdown()
+
+    const entries = readEntries(logName)
+    expect(entries.map(({ level, message }) => [level, message])).toEqual([
+      ['info', 'Parsed'],
+      ['warning', 'Fetched'],
+      ['error', 'Failed'],
+      ['crit', 'Validated'],
+    ])
+    expect(entries[2].error).toMatchObject({ name: 'Error', message: 'Timeout' })
+    expect(entries[3].error).toMatchObject({ name: 'Error', message: 'Invalid' })
+    for (const entry of entries) {
+      expect(entry.durationMs).toBeGreaterThanOrEqual(0)
+    }
+  })
+})
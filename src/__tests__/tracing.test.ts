@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { createChildLogger } from '../log-facotry'
+import { shutdown } from '../registry'
+import { formatTraceparent, getActiveSpan, parseTraceparent, startSpan, withSpan } from '../tracing'
+import { createJsonLogger, readEntries } from './helpers'
+
+const HEADER = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+
+describe('Tracing spans', () => {
+  afterEach(async () => {
+    await shutdown()
+  })
+
+  test('parses and formats traceparent headers', () => {
+    expect(parseTraceparent(HEADER)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    })
+    expect(formatTraceparent(parseTraceparent(HEADER)!)).toBe(HEADER)
+    expect(parseTraceparent(' 00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-00 ')?.sampled).toBe(false)
+    expect(parseTraceparent(`01-${HEADER.slice(3)}-future`)?.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+
+    for (const invalid of [
+      undefined,
+      '',
+      `ff-${HEADER.slice(3)}`,
+      `${HEADER}-extra`,
+      '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+      '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01',
+      '00-4bf92f3577b34da6a3ce929d0e0e473-00f067aa0ba902b7-01',
+    ]) {
+      expect(parseTraceparent(invalid)).toBeUndefined()
+    }
+  })
+
+  test('stamps trace and span IDs into entries and nests spans', async () => {
+    const logName = 'test-tracing-nested'
+    const logger = createJsonLogger(logName)
+    const child = createChildLogger(logger, { module: 'inventory' })
+
+    const outer = startSpan('sync-inventory', { logger, parent: HEADER })
+    let inner: ReturnType<typeof startSpan> | undefined
+    await outer.run(async () => {
+      expect(getActiveSpan()).toBe(outer)
+      logger.info('Fetching stock levels')
+      await withSpan('fetch-warehouse', async (span) => {
+        inner = span
+        child.info('Warehouse responded')
+      })
+    })
+    outer.end({ items: 120 })
+    logger.info('Outside')
+    await shutdown()
+
+    expect(outer).toMatchObject({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', parentSpanId: '00f067aa0ba902b7' })
+    expect(outer.spanId).toMatch(/^[0-9a-f]{16}$/)
+    expect(outer.traceparent).toBe(`00-${outer.traceId}-${outer.spanId}-01`)
+    expect(inner).toMatchObject({ traceId: outer.traceId, parentSpanId: outer.spanId })
+
+    const entries = readEntries(logName)
+    const find = (message: string) => entries.find((entry) => entry.message === message)
+    expect(find('sync-inventory started')).toMatchObject({ span: 'sync-inventory', spanId: outer.spanId })
+    expect(find('Fetching stock levels')).toMatchObject({ traceId: outer.traceId, spanId: outer.spanId })
+    expect(find('Warehouse responded')).toMatchObject({
+      module: 'inventory',
+      traceId: outer.traceId,
+      spanId: inner?.spanId,
+    })
+    expect(find('sync-inventory finished')).toMatchObject({ spanId: outer.spanId, items: 120 })
+    expect(find('sync-inventory finished').durationMs).toBeGreaterThanOrEqual(0)
+    expect(find('Outside').traceId).toBeUndefined()
+    expect(find('fetch-warehouse started')).toBeUndefined()
+  })
+
+  test('withSpan ends spans with the error and rethrows it', async () => {
+    const logName = 'test-tracing-error'
+    const logger = createJsonLogger(logName)
+
+    expect(() =>
+      withSpan(
+        'charge',
+        () => {
+          throw new Error('Card declined')
+        },
+        { logger, level: 'debug' }
+      )
+    ).toThrow('Card declined')
+    expect(getActiveSpan()).toBeUndefined()
+    await shutdown()
+
+    const [started, finished] = readEntries(logName)
+    expect(started).toMatchObject({ level: 'debug', message: 'charge started' })
+    expect(finished).toMatchObject({ level: 'debug', message: 'charge finished', error: { message: 'Card declined' } })
+    expect(started.parentSpanId).toBeUndefined()
+  })
+
+  test('end logs the span only once', async () => {
+    const logName = 'test-tracing-end-once'
+    const logger = createJsonLogger(logName)
+
+    const span = startSpan('import', { logger })
+    const durationMs = span.end({ rows: 10 })
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(span.end({ rows: 20 })).toBe(durationMs)
+    await shutdown()
+
+    expect(readEntries(logName)).toEqual([
+      expect.objectContaining({ message: 'import started' }),
+      expect.objectContaining({ message: 'import finished', rows: 10, durationMs }),
+    ])
+  })
+})
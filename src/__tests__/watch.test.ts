@@ -0,0 +1,177 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as winston from 'winston'
+import { createChildLogger, createLogger } from '../log-facotry'
+import { getLevel, reconfigureLogger } from '../runtime'
+import { watchLoggerConfig } from '../watch'
+import { logFilePath, TEST_LOG_DIR } from './helpers'
+
+const readAllLogs = (logName: string) => fs.readFileSync(logFilePath(logName), 'utf-8')
+
+const writeConfig = (name: string, config: unknown) => {
+  const configPath = path.join(TEST_LOG_DIR, `${name}.json`)
+  fs.writeFileSync(configPath, typeof config === 'string' ? config : JSON.stringify(config))
+  return configPath
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('Live reconfiguration', () => {
+  beforeAll(() => {
+    fs.mkdirSync(TEST_LOG_DIR, { recursive: true })
+  })
+
+  test('applies the config file on start and on reload', () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-watch-start', level: 'info' })
+    const configPath = writeConfig('start', { level: 'debug', moduleLevels: { db: 'silly' } })
+
+    const watcher = watchLoggerConfig(logger, configPath, { signal: false, watchFile: false })
+    expect(getLevel(logger)).toBe('debug')
+    expect(getLevel(logger, 'db')).toBe('silly')
+
+    writeConfig('start', { level: 'warn' })
+    expect(watcher.reload()).toBe(true)
+    expect(getLevel(logger)).toBe('warn')
+    expect(getLevel(logger, 'db')).toBe('warn')
+    watcher.close()
+  })
+
+  test('reloads on SIGHUP', () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-watch-signal', level: 'info' })
+    const configPath = path.join(TEST_LOG_DIR, 'signal.json')
+    const reloaded: unknown[] = []
+
+    const watcher = watchLoggerConfig(logger, configPath, {
+      watchFile: false,
+      onReload: (options) => reloaded.push(options),
+    })
+    writeConfig('signal', { level: 'debug' })
+    process.emit('SIGHUP', 'SIGHUP')
+
+    expect(getLevel(logger)).toBe('debug')
+    expect(reloaded).toHaveLength(1)
+
+    watcher.close()
+    writeConfig('signal', { level: 'error' })
+    process.emit('SIGHUP', 'SIGHUP')
+    expect(getLevel(logger)).toBe('debug')
+  })
+
+  test('reloads when the file changes', async () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-watch-file', level: 'info' })
+    const configPath = writeConfig('file', { level: 'info' })
+
+    const watcher = watchLoggerConfig(logger, configPath, { signal: false, interval: 20 })
+    await wait(50)
+    writeConfig('file', { level: 'verbose' })
+    fs.utimesSync(configPath, new Date(), new Date(Date.now() + 5000))
+    await wait(200)
+
+    expect(getLevel(logger)).toBe('verbose')
+    watcher.close()
+  })
+
+  test('keeps the running config when the file is invalid', () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, logName: 'test-watch-invalid', level: 'info' })
+    const configPath = writeConfig('invalid', { level: 'debug' })
+    const errors: Error[] = []
+
+    const watcher = watchLoggerConfig(logger, configPath, {
+      signal: false,
+      watchFile: false,
+      onError: (error) => errors.push(error),
+    })
+    writeConfig('invalid', {
+      level: 'loud',
+      enableConsoleLogging: 'yes',
+      moduleLevels: { db: 'quiet' },
+      redact: { patterns: ['/[/'] },
+      logDirectory: '/tmp',
+    })
+
+    expect(watcher.reload()).toBe(false)
+    expect(getLevel(logger)).toBe('debug')
+    expect(errors).toHaveLength(1)
+    const { message } = errors[0]
+    expect(message).toContain(`Invalid logger config ${configPath}`)
+    expect(message).toContain('level must be one of')
+    expect(message).toContain('enableConsoleLogging must be a boolean')
+    expect(message).toContain('moduleLevels.db must be one of')
+    expect(message).toContain('redact.patterns entry "/[/"')
+    expect(message).toContain('logDirectory is not a reloadable option')
+
+    writeConfig('invalid', '{ level: ')
+    expect(watcher.reload()).toBe(false)
+    expect(errors[1].message).toContain('Failed to read logger config')
+    watcher.close()
+  })
+
+  test('options removed from the file revert to the initial values', () => {
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName: 'test-watch-revert',
+      level: 'warn',
+      moduleLevels: { db: 'debug' },
+    })
+    const configPath = writeConfig('revert', { level: 'silly', moduleLevels: {} })
+
+    const watcher = watchLoggerConfig(logger, configPath, { signal: false, watchFile: false })
+    expect(getLevel(logger)).toBe('silly')
+    expect(getLevel(logger, 'db')).toBe('silly')
+
+    writeConfig('revert', {})
+    watcher.reload()
+    expect(getLevel(logger)).toBe('warn')
+    expect(getLevel(logger, 'db')).toBe('debug')
+    watcher.close()
+  })
+
+  test('toggles console logging and changes redaction rules', async () => {
+    const logName = 'test-watch-console-redact'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      enableConsoleLogging: false,
+      redact: ['password'],
+    })
+    const child = createChildLogger(logger, { module: 'auth' })
+    const configPath = writeConfig('console-redact', {
+      enableConsoleLogging: true,
+      redact: { paths: ['token'], patterns: ['email', '/secret-\\d+/'] },
+    })
+
+    const watcher = watchLoggerConfig(logger, configPath, { signal: false, watchFile: false })
+    expect(logger.transports.some((t) => t instanceof winston.transports.Console)).toBe(true)
+
+    child.info('Login by a@b.io with secret-42', { password: 'hunter2', token: 'abc' })
+
+    writeConfig('console-redact', { redact: false })
+    watcher.reload()
+    expect(logger.transports.some((t) => t instanceof winston.transports.Console)).toBe(false)
+    child.info('Plain entry', { token: 'visible-token' })
+
+    await wait(500)
+
+    const content = readAllLogs(logName)
+    expect(content).toContain('Login by [REDACTED] with [REDACTED]')
+    expect(content).toContain('password=hunter2')
+    expect(content).toContain('token=[REDACTED]')
+    expect(content).toContain('token=visible-token')
+    watcher.close()
+  })
+
+  test('reconfigureLogger validates every level before applying', () => {
+    const logger = createLogger({ logDirectory: TEST_LOG_DIR, level: 'info' })
+    expect(() =>
+      reconfigureLogger(logger, { level: 'debug', moduleLevels: { db: 'loud' as 'info' } })
+    ).toThrow('Unknown log level: loud')
+    expect(getLevel(logger)).toBe('info')
+    expect(() => reconfigureLogger(winston.createLogger(), { level: 'debug' })).toThrow(
+      'Reconfiguration requires a logger created by createLogger'
+    )
+    expect(() => watchLoggerConfig(winston.createLogger(), 'config.json')).toThrow(
+      'Config watching requires a logger created by createLogger'
+    )
+  })
+})
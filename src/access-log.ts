@@ -0,0 +1,99 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import { MESSAGE } from 'triple-beam'
+import { createTimestampFormatter } from './timestamp'
+import type { AccessLogFormat, HttpAccessFields } from './types'
+
+/**
+ * Marks entries written by the request logging middleware
+ * @internal
+ */
+export const ACCESS_ENTRY = Symbol('loggerama.accessEntry')
+
+/**
+ * Templates of the built-in access log formats
+ * @internal
+ */
+const PRESETS: Readonly<Record<'common' | 'combined', string>> = {
+  common: ':remote-addr - :remote-user [:date] ":method :url HTTP/:http-version" :status :bytes',
+  combined:
+    ':remote-addr - :remote-user [:date] ":method :url HTTP/:http-version" :status :bytes ":referrer" ":user-agent"',
+}
+
+/**
+ * Matches `:token` placeholders
+ * @internal
+ */
+const TOKEN_PATTERN = /:([a-z][a-z-]*)/g
+
+/**
+ * Renders the value of each token, `-` standing for a missing value as in Apache logs
+ * @internal
+ */
+const TOKENS: Readonly<Record<string, (fields: HttpAccessFields, date: string) => string | number | undefined>> = {
+  'remote-addr': (fields) => fields.ip,
+  'remote-user': () => undefined,
+  date: (_fields, date) => date,
+  method: (fields) => fields.method,
+  url: (fields) => fields.url,
+  route: (fields) => fields.route,
+  'http-version': (fields) => fields.httpVersion ?? '1.1',
+  status: (fields) => fields.status,
+  bytes: (fields) => fields.bytes || undefined,
+  referrer: (fields) => fields.referer,
+  'user-agent': (fields) => fields.userAgent,
+  'response-time': (fields) => fields.durationMs,
+  'request-id': (fields) => fields.requestId,
+}
+
+/**
+ * Escapes quotes, backslashes and control characters like Apache does, so every entry stays on one parseable line
+ * @internal
+ */
+const escapeValue = (value: string): string =>
+  value.replace(/["\\]|[\x00-\x1f\x7f]/g, (char) =>
+    char === '"' || char === '\\' ? `\\${char}` : `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`
+  )
+
+/**
+ * Creates the Winston format of the access log file
+ *
+ * @param format - `combined`, `common` or a template of `:token` placeholders
+ * @param timezone - Timezone of the `:date` token; the local timezone when omitted
+ * @returns A Winston format rendering entries of the request logging middleware and dropping all others
+ * @throws If the template contains an unknown token
+ *
+ * @remarks
+ * Supported tokens: `:remote-addr`, `:remote-user`, `:date` (`10/Oct/2024:13:55:36 +0200`), `:method`,
+ * `:url`, `:route`, `:http-version`, `:status`, `:bytes`, `:referrer`, `:user-agent`,
+ * `:response-time` (milliseconds) and `:request-id`. Missing values are written as `-`.
+ *
+ * @example
+ * ```ts
+ * accessLogFormat('combined')
+ * // 203.0.113.7 - - [10/Oct/2024:13:55:36 +0200] "GET /users/42 HTTP/1.1" 200 512 "-" "curl/8.4.0"
+ * ```
+ */
+export const accessLogFormat = (format: AccessLogFormat = 'combined', timezone?: string): Logform.Format => {
+  const template = format === 'common' || format === 'combined' ? PRESETS[format as keyof typeof PRESETS] : format
+  for (const [, token] of template.matchAll(TOKEN_PATTERN)) {
+    if (!(token in TOKENS)) {
+      throw new Error(`Unknown access log token: :${token}`)
+    }
+  }
+  const formatDate = createTimestampFormatter({ format: 'DD/MMM/YYYY:HH:mm:ss ZZ', timezone })
+
+  return winston.format((info) => {
+    if (!(info as Record<symbol, unknown>)[ACCESS_ENTRY]) {
+      return false
+    }
+    const fields = info as unknown as HttpAccessFields
+    // Apache logs the time the request was received
+    const date = formatDate(new Date(Date.now() - fields.durationMs)).replace(/:(\d\d)$/, '$1')
+    info[MESSAGE] = template.replace(TOKEN_PATTERN, (_match: string, token: string) => {
+      const value = TOKENS[token](fields, date)
+      return value === undefined || value === '' ? '-' : escapeValue(String(value))
+    })
+    return info
+  })()
+}
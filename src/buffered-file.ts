@@ -0,0 +1,338 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { pipeline } from 'stream/promises'
+import * as zlib from 'zlib'
+import TransportStream from 'winston-transport'
+import { MESSAGE } from 'triple-beam'
+import type { BufferedFileStats, BufferedFileTransportOptions, FlushableTransport } from './types'
+import { createBytes } from './utils'
+
+/**
+ * Path of the n-th rotated file, following Winston's `tailable` naming (`app-All1.log`, `app-All2.log.gz`, ...)
+ * @internal
+ */
+const rotatedPath = (filename: string, index: number, archiveSuffix: string): string => {
+  const { dir, name, ext } = path.parse(filename)
+  return path.join(dir, `${name}${index}${ext}${archiveSuffix}`)
+}
+
+/**
+ * Compresses a file into a gzip archive and removes the original
+ * @internal
+ */
+const gzipFile = async (source: string, target: string): Promise<void> => {
+  await pipeline(fs.createReadStream(source), zlib.createGzip(), fs.createWriteStream(target))
+  fs.rmSync(source, { force: true })
+}
+
+/**
+ * Placeholder of the date in daily file names
+ * @internal
+ */
+const DATE_PLACEHOLDER = '%DATE%'
+
+/**
+ * Local date in daily file names, like `winston-daily-rotate-file`'s default `YYYY-MM-DD` pattern
+ * @internal
+ */
+const localDate = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((part) => String(part).padStart(2, '0')).join('-')
+
+/**
+ * Escapes characters with a meaning in regular expressions
+ * @internal
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Winston transport that batches entries and appends them to a file in large writes
+ *
+ * @remarks
+ * Entries are buffered in memory and written once `flushSize` bytes are buffered or
+ * `flushInterval` milliseconds have passed, so a busy logger issues a few large writes
+ * instead of one per entry. When `maxBufferSize` bytes are waiting, `overflow: 'block'`
+ * holds back the logger stream until the buffer is written (Winston's `logger.write`
+ * returns `false` meanwhile), while `overflow: 'drop'` discards new entries.
+ *
+ * Files are rotated by size like Winston's `File` transport with `tailable: true`,
+ * and rotated files are compressed to `.gz` archives with `zippedArchive: true`.
+ * A `%DATE%` in the file name is replaced by the local date (`app-2024-10-10.log`) and a new
+ * file is started on the first write of each day; `maxFiles` then also limits the days kept.
+ * Buffered entries are lost if the process exits without closing the transport;
+ * `shutdown()` flushes it.
+ *
+ * @example
+ * ```ts
+ * const transport = new BufferedFileTransport({ filename: 'logs/ingest.log', flushSize: MB(1) })
+ * const logger = winston.createLogger({ transports: [transport] })
+ * setInterval(() => console.log(transport.stats), 10_000)
+ * ```
+ */
+export class BufferedFileTransport extends TransportStream implements FlushableTransport {
+  private readonly template: string
+  private readonly flushSize: number
+  private readonly maxBufferSize: number
+  private readonly overflow: 'block' | 'drop'
+  private readonly maxsize?: number
+  private readonly maxFiles?: number
+  private readonly archiveSuffix: string
+  private readonly eol: string
+  private readonly timer: NodeJS.Timeout
+
+  private buffer: string[] = []
+  private bufferedBytes = 0
+  private date?: string
+  private file: string
+  private size: number
+  private stream: fs.WriteStream
+  private flushing?: Promise<void>
+  private blockedCallbacks: (() => void)[] = []
+  private closing = false
+  private readonly whenClosed = new Promise<void>((resolve) => this.once('closed', () => resolve()))
+  private readonly counters = { written: 0, dropped: 0, flushes: 0, blocked: 0 }
+
+  constructor(options: BufferedFileTransportOptions) {
+    super(options)
+    const {
+      filename,
+      flushSize = createBytes(64 * 1024),
+      flushInterval = 1000,
+      maxBufferSize = createBytes(8 * 1024 * 1024),
+      overflow = 'block',
+      maxsize,
+      maxFiles,
+      zippedArchive = false,
+      eol = os.EOL,
+    } = options
+
+    this.template = filename
+    this.flushSize = flushSize
+    this.maxBufferSize = Math.max(maxBufferSize, flushSize)
+    this.overflow = overflow
+    this.maxsize = maxsize
+    this.maxFiles = maxFiles
+    this.archiveSuffix = zippedArchive ? '.gz' : ''
+    this.eol = eol
+
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+    this.date = filename.includes(DATE_PLACEHOLDER) ? localDate(new Date()) : undefined
+    this.file = this.resolveFile()
+    this.size = this.existingSize()
+    this.stream = this.openStream()
+
+    this.timer = setInterval(() => {
+      void this.flush()
+    }, flushInterval)
+    this.timer.unref()
+  }
+
+  /**
+   * Path of the file currently written to
+   */
+  get filename(): string {
+    return this.file
+  }
+
+  /**
+   * Entries written and dropped, writes issued, times the logger was held back and the size of the buffer
+   */
+  get stats(): BufferedFileStats {
+    return { ...this.counters, bufferedBytes: this.bufferedBytes }
+  }
+
+  /**
+   * Appends the entry's line to the buffer and starts a write once `flushSize` bytes are buffered
+   *
+   * @remarks
+   * When the buffer is full, the callback waits for the next write, which holds the logger back,
+   * or the line is dropped with `overflow: 'drop'`.
+   */
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    if (this.closing) {
+      this.counters.dropped++
+      callback()
+      return
+    }
+
+    const line = `${String(info[MESSAGE] ?? info.message)}${this.eol}`
+    const bytes = Buffer.byteLength(line)
+    if (this.bufferedBytes + bytes > this.maxBufferSize) {
+      if (this.overflow === 'drop') {
+        this.counters.dropped++
+        callback()
+        return
+      }
+      this.counters.blocked++
+      this.push(line, bytes)
+      this.blockedCallbacks.push(callback)
+      void this.flush()
+      return
+    }
+
+    this.push(line, bytes)
+    if (this.bufferedBytes >= this.flushSize && !this.flushing) {
+      void this.flush()
+    }
+    callback()
+  }
+
+  /**
+   * Writes all buffered entries to disk
+   *
+   * @returns A promise resolving once every entry buffered before the call has been written
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = undefined
+      })
+    }
+    return this.flushing.then(() => (this.buffer.length > 0 ? this.flush() : undefined))
+  }
+
+  /**
+   * Resolves once the transport is closed, its buffer written and the file closed
+   */
+  flushed(): Promise<void> {
+    return this.whenClosed
+  }
+
+  /**
+   * Writes the rest of the buffer and closes the file
+   *
+   * @remarks
+   * Emits `closed` once everything has been written and the file is closed.
+   */
+  close(): void {
+    if (this.closing) {
+      return
+    }
+    this.closing = true
+    clearInterval(this.timer)
+    void this.flush()
+      .then(() => new Promise<void>((resolve) => this.stream.end(resolve)))
+      .then(() => {
+        this.emit('flush')
+        this.emit('closed')
+      })
+  }
+
+  private push(line: string, bytes: number): void {
+    this.buffer.push(line)
+    this.bufferedBytes += bytes
+  }
+
+  private resolveFile(): string {
+    return this.date ? this.template.split(DATE_PLACEHOLDER).join(this.date) : this.template
+  }
+
+  private existingSize(): number {
+    return fs.existsSync(this.file) ? fs.statSync(this.file).size : 0
+  }
+
+  private openStream(): fs.WriteStream {
+    return fs
+      .createWriteStream(this.file, { flags: 'a' })
+      .on('error', (error) => this.emit('warn', error))
+  }
+
+  /**
+   * Writes batches until the buffer is empty, releasing blocked entries after each write
+   */
+  private async drain(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const chunk = this.buffer.join('')
+      const count = this.buffer.length
+      const bytes = this.bufferedBytes
+      this.buffer = []
+      this.bufferedBytes = 0
+
+      try {
+        await this.startDayIfNeeded()
+        await this.rotateIfNeeded(bytes)
+        await new Promise<void>((resolve, reject) =>
+          this.stream.write(chunk, (error) => (error ? reject(error) : resolve()))
+        )
+        this.size += bytes
+        this.counters.written += count
+      } catch (error) {
+        this.counters.dropped += count
+        this.emit('warn', error)
+      }
+      this.counters.flushes++
+
+      const released = this.blockedCallbacks
+      this.blockedCallbacks = []
+      released.forEach((callback) => callback())
+    }
+  }
+
+  /**
+   * Switches to the file of the current day and removes the files of days beyond `maxFiles`
+   */
+  private async startDayIfNeeded(): Promise<void> {
+    const today = localDate(new Date())
+    if (!this.date || this.date === today) {
+      return
+    }
+    await new Promise<void>((resolve) => this.stream.end(resolve))
+    this.date = today
+    this.file = this.resolveFile()
+    this.size = this.existingSize()
+    this.stream = this.openStream()
+
+    if (this.maxFiles) {
+      const { dir, name, ext } = path.parse(this.template)
+      const [prefix, rest] = name.split(DATE_PLACEHOLDER).map(escapeRegExp)
+      const pattern = new RegExp(`^${prefix}(\\d{4}-\\d{2}-\\d{2})${rest}\\d*${escapeRegExp(ext)}(\\.gz)?$`)
+      const dated = fs
+        .readdirSync(dir)
+        .map((file) => ({ file, date: pattern.exec(file)?.[1] }))
+        .filter((entry): entry is { file: string; date: string } => entry.date !== undefined)
+      const kept = [...new Set([...dated.map(({ date }) => date), today])].sort().slice(-this.maxFiles)
+      for (const { file, date } of dated) {
+        if (!kept.includes(date)) {
+          fs.rmSync(path.join(dir, file), { force: true })
+        }
+      }
+    }
+  }
+
+  /**
+   * Rotates the file if the next write would exceed `maxsize`
+   */
+  private async rotateIfNeeded(bytes: number): Promise<void> {
+    if (!this.maxsize || this.size === 0 || this.size + bytes <= this.maxsize) {
+      return
+    }
+    await new Promise<void>((resolve) => this.stream.end(resolve))
+
+    let last = 1
+    while (fs.existsSync(rotatedPath(this.file, last, this.archiveSuffix))) {
+      last++
+    }
+    if (this.maxFiles) {
+      for (let index = Math.max(this.maxFiles - 1, 1); index < last; index++) {
+        fs.rmSync(rotatedPath(this.file, index, this.archiveSuffix), { force: true })
+      }
+      last = Math.min(last, Math.max(this.maxFiles - 1, 1))
+    }
+    for (let index = last - 1; index >= 1; index--) {
+      fs.renameSync(
+        rotatedPath(this.file, index, this.archiveSuffix),
+        rotatedPath(this.file, index + 1, this.archiveSuffix)
+      )
+    }
+    if (this.maxFiles === 1) {
+      fs.rmSync(this.file, { force: true })
+    } else if (this.archiveSuffix) {
+      await gzipFile(this.file, rotatedPath(this.file, 1, this.archiveSuffix))
+    } else {
+      fs.renameSync(this.file, rotatedPath(this.file, 1, this.archiveSuffix))
+    }
+
+    this.size = 0
+    this.stream = this.openStream()
+  }
+}
@@ -0,0 +1,707 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { getEnvironmentOptions, isValidEnvironment, listEnvironments } from './environments'
+import { levelSchemes } from './levels'
+import { REDACT_PATTERNS } from './redact'
+import { SYSLOG_FACILITIES } from './syslog'
+import type {
+  Bytes,
+  ConfigLoaderOptions,
+  LevelDefinitions,
+  LoggerOptions,
+  RedactOptions,
+  RedactPatternName,
+} from './types'
+import { createBytes } from './utils'
+
+/**
+ * Error thrown when logger configuration is invalid
+ *
+ * @remarks
+ * Collects every problem found instead of stopping at the first one.
+ * The message lists all issues, one per line.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await loadLoggerOptions()
+ * } catch (error) {
+ *   if (error instanceof LoggerConfigError) {
+ *     error.issues.forEach((issue) => console.error(issue))
+ *   }
+ * }
+ * ```
+ */
+export class LoggerConfigError extends Error {
+  /** Every problem found, each prefixed with where the value came from */
+  readonly issues: readonly string[]
+
+  constructor(message: string, issues: readonly string[]) {
+    super(`${message}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`)
+    this.name = 'LoggerConfigError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Config file names looked up in the working directory, in order of preference
+ *
+ * @remarks
+ * TypeScript config files need Bun or a TypeScript loader such as `tsx`; Node loads the others.
+ */
+export const CONFIG_FILE_NAMES = [
+  'loggerama.config.ts',
+  'loggerama.config.mjs',
+  'loggerama.config.js',
+  'loggerama.config.cjs',
+  'loggerama.config.json',
+] as const
+
+/**
+ * Extensions of config files that are imported as modules
+ * @internal
+ */
+const MODULE_EXTENSIONS: readonly string[] = ['.js', '.mjs', '.cjs']
+
+/**
+ * Extensions of TypeScript config files, imported when the runtime can load TypeScript
+ * @internal
+ */
+const TYPESCRIPT_EXTENSIONS: readonly string[] = ['.ts', '.mts', '.cts']
+
+/**
+ * Environment variables read by {@link loadLoggerOptions} and the options they set
+ *
+ * @remarks
+ * Booleans accept `true`/`false`, `1`/`0`, `yes`/`no` and `on`/`off`.
+ * `LOG_MAX_SIZE` accepts a byte count or a size such as `10MB`.
+ */
+export const ENV_VARIABLES = {
+  LOG_LEVEL: 'level',
+  LOG_NAME: 'logName',
+  LOG_DIR: 'logDirectory',
+  LOG_CONSOLE: 'enableConsoleLogging',
+  LOG_FILE: 'enableFileLogging',
+  LOG_PRETTY: 'prettyPrint',
+  LOG_COLORIZE: 'colorize',
+  LOG_FORMAT: 'fileOutputFormat',
+  LOG_FILE_WRITER: 'fileWriter',
+  LOG_MAX_SIZE: 'maxFileSize',
+  LOG_MAX_FILES: 'maxFiles',
+  LOG_DAILY_ROTATION: 'useDailyRotation',
+  LOG_TIMESTAMP_FORMAT: 'timestampFormat',
+  LOG_TIMEZONE: 'timezone',
+} as const satisfies Readonly<Record<string, keyof LoggerOptions>>
+
+/**
+ * Result of checking a single option value
+ * @internal
+ */
+type ParsedValue = { value: unknown; problem?: undefined } | { value?: undefined; problem: string }
+
+/**
+ * Checks and normalizes the value of one option
+ * @internal
+ */
+type OptionParser = (value: unknown) => ParsedValue
+
+/**
+ * Checks that a value is a plain object
+ * @internal
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Checks that a value is an array of strings
+ * @internal
+ */
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+/**
+ * Renders a value for an error message
+ * @internal
+ */
+const describeValue = (value: unknown): string =>
+  typeof value === 'function' ? 'a function' : JSON.stringify(value) ?? String(value)
+
+/**
+ * Creates a parser accepting values that satisfy a predicate
+ * @internal
+ */
+const accept =
+  (predicate: (value: unknown) => boolean, expected: string): OptionParser =>
+  (value) =>
+    predicate(value) ? { value } : { problem: `must be ${expected} (got ${describeValue(value)})` }
+
+const booleanOption = accept((value) => typeof value === 'boolean', 'a boolean')
+const stringOption = accept((value) => typeof value === 'string' && value.length > 0, 'a non-empty string')
+const oneOf = (choices: readonly string[]): OptionParser =>
+  accept((value) => choices.includes(value as string), `one of ${choices.join(', ')}`)
+
+/**
+ * Units accepted in size strings, in bytes
+ * @internal
+ */
+const SIZE_UNITS: Readonly<Record<string, number>> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+}
+
+/**
+ * Parses a byte count or a size string such as `10MB` into Bytes
+ * @internal
+ */
+const sizeOption: OptionParser = (value) => {
+  const problem = `must be a non-negative integer number of bytes or a size such as "10MB" (got ${describeValue(value)})`
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) && value >= 0 ? { value: createBytes(value) } : { problem }
+  }
+  const match = typeof value === 'string' && /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value.trim())
+  if (!match) {
+    return { problem }
+  }
+  const bytes: Bytes = createBytes(Math.round(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]))
+  return { value: bytes }
+}
+
+/**
+ * Parses a positive integer
+ * @internal
+ */
+const positiveIntegerOption = accept(
+  (value) => typeof value === 'number' && Number.isSafeInteger(value) && value > 0,
+  'a positive integer'
+)
+
+/**
+ * Checks that a timezone is `UTC` or a known IANA timezone
+ * @internal
+ */
+const timezoneOption: OptionParser = (value) => {
+  if (typeof value === 'string') {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value })
+      return { value }
+    } catch {
+      // Reported below
+    }
+  }
+  return { problem: `must be UTC or an IANA timezone name (got ${describeValue(value)})` }
+}
+
+/**
+ * Checks custom level definitions
+ * @internal
+ */
+const levelsOption: OptionParser = (value) => {
+  const problem = `must map level names to { severity, color? } with a non-negative integer severity (got ${describeValue(value)})`
+  if (!isRecord(value) || Object.keys(value).length === 0) {
+    return { problem }
+  }
+  const valid = Object.values(value).every(
+    (definition) =>
+      isRecord(definition) &&
+      Number.isSafeInteger(definition.severity) &&
+      (definition.severity as number) >= 0 &&
+      (definition.color === undefined || typeof definition.color === 'string')
+  )
+  return valid ? { value } : { problem }
+}
+
+/**
+ * Creates a parser for an object whose properties have parsers of their own
+ *
+ * @param parsers - Parser of each known property
+ * @param kind - What the object configures, for unknown property problems
+ * @internal
+ */
+const objectOption =
+  (parsers: Readonly<Record<string, OptionParser>>, kind: string): OptionParser =>
+  (value) => {
+    if (!isRecord(value)) {
+      return { problem: `must be an object (got ${describeValue(value)})` }
+    }
+    const problems: string[] = []
+    const options: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      const result = parsers[key]?.(item) ?? { problem: `is not a ${kind} option` }
+      if (result.problem !== undefined) {
+        problems.push(`${key} ${result.problem}`)
+      } else {
+        options[key] = result.value
+      }
+    }
+    return problems.length > 0 ? { problem: problems.join('; ') } : { value: options }
+  }
+
+/**
+ * Parses one route; level names are checked once all sources are merged
+ * @internal
+ */
+const routeOption = objectOption(
+  {
+    file: accept(
+      (file) => typeof file === 'string' && /^-[\w.-]+\.log$/.test(file),
+      'a file suffix such as "-audit.log"'
+    ),
+    levels: (levels) =>
+      isStringArray(levels)
+        ? { value: levels }
+        : objectOption({ atLeast: stringOption, atMost: stringOption }, 'level range')(levels),
+    module: accept(
+      (module) => typeof module === 'string' || isStringArray(module),
+      'a module name or an array of module names'
+    ),
+    filter: accept((filter) => typeof filter === 'function', 'a function'),
+  },
+  'route'
+)
+
+/**
+ * Parses the list of routes, reporting problems by position
+ * @internal
+ */
+const routesOption: OptionParser = (value) => {
+  if (!Array.isArray(value)) {
+    return { problem: `must be an array of routes (got ${describeValue(value)})` }
+  }
+  const problems: string[] = []
+  const routes = value.map((route, index) => {
+    const result = isRecord(route) && route.file === undefined ? { problem: 'file is required' } : routeOption(route)
+    if (result.problem !== undefined) {
+      problems.push(`entry ${index}: ${result.problem}`)
+    }
+    return result.value
+  })
+  return problems.length > 0 ? { problem: problems.join('; ') } : { value: routes }
+}
+
+/**
+ * Checks the shape of module levels; level names are checked once all sources are merged
+ * @internal
+ */
+const moduleLevelsOption = accept(
+  (value) => isRecord(value) && Object.values(value).every((level) => typeof level === 'string'),
+  'an object mapping module names to levels'
+)
+
+/**
+ * Converts a redaction pattern from a config file into a pattern name or RegExp
+ *
+ * @param pattern - A built-in pattern name or a `/source/flags` string
+ * @returns The pattern, or `undefined` if it is neither
+ * @internal
+ */
+const parsePattern = (pattern: string): RedactPatternName | RegExp | undefined => {
+  if (Object.prototype.hasOwnProperty.call(REDACT_PATTERNS, pattern)) {
+    return pattern as RedactPatternName
+  }
+  const match = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  if (!match) {
+    return undefined
+  }
+  try {
+    return new RegExp(match[1], match[2])
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Validates redaction rules from a config file
+ *
+ * @param redact - The raw value: a list of key paths or a redaction options object
+ * @param issues - Receives a description of every problem found
+ * @returns The redaction rules, with pattern strings converted to pattern names or RegExps
+ * @internal
+ *
+ * @remarks
+ * Patterns can be RegExps (in `.ts` config files), built-in pattern names or `/regex/flags` strings.
+ */
+export const parseRedactOption = (
+  redact: unknown,
+  issues: string[]
+): RedactOptions | readonly string[] | undefined => {
+  if (isStringArray(redact)) {
+    return redact
+  }
+  if (!isRecord(redact)) {
+    issues.push(`redact must be an array of key paths or a redaction options object (got ${describeValue(redact)})`)
+    return undefined
+  }
+
+  const { paths, patterns, censor, ...unknown } = redact
+  const parsed: { -readonly [K in keyof RedactOptions]: RedactOptions[K] } = {}
+  for (const key of Object.keys(unknown)) {
+    issues.push(`redact.${key} is not a redaction option`)
+  }
+  if (paths !== undefined) {
+    if (isStringArray(paths)) {
+      parsed.paths = paths
+    } else {
+      issues.push('redact.paths must be an array of strings')
+    }
+  }
+  if (patterns !== undefined) {
+    if (Array.isArray(patterns)) {
+      parsed.patterns = patterns.flatMap((pattern: unknown) => {
+        const result =
+          pattern instanceof RegExp ? pattern : typeof pattern === 'string' ? parsePattern(pattern) : undefined
+        if (!result) {
+          issues.push(
+            `redact.patterns entry ${describeValue(pattern)} must be a built-in pattern name or a /regex/ string`
+          )
+        }
+        return result ? [result] : []
+      })
+    } else {
+      issues.push('redact.patterns must be an array')
+    }
+  }
+  if (censor !== undefined) {
+    if (typeof censor === 'string') {
+      parsed.censor = censor
+    } else {
+      issues.push('redact.censor must be a string')
+    }
+  }
+  return parsed
+}
+
+/**
+ * Parser for every option that can be set outside of code
+ * @internal
+ */
+const OPTION_PARSERS: Readonly<Record<keyof LoggerOptions, OptionParser>> = {
+  logName: stringOption,
+  environment: stringOption,
+  levelScheme: oneOf(Object.keys(levelSchemes)),
+  levels: levelsOption,
+  level: stringOption,
+  moduleLevels: moduleLevelsOption,
+  logDirectory: stringOption,
+  enableFileLogging: booleanOption,
+  maxFileSize: sizeOption,
+  maxFiles: positiveIntegerOption,
+  separateErrorLog: booleanOption,
+  separateWarnLog: booleanOption,
+  routes: routesOption,
+  accessLog: (value) =>
+    typeof value === 'boolean' ? { value } : objectOption({ format: stringOption }, 'accessLog')(value),
+  useDailyRotation: booleanOption,
+  fileOutputFormat: oneOf(['text', 'json', 'ndjson']),
+  fileWriter: oneOf(['standard', 'buffered']),
+  fileWriterOptions: objectOption(
+    {
+      flushSize: sizeOption,
+      flushInterval: positiveIntegerOption,
+      maxBufferSize: sizeOption,
+      overflow: oneOf(['block', 'drop']),
+    },
+    'buffered writer'
+  ),
+  syslog: objectOption(
+    {
+      protocol: oneOf(['udp', 'tcp', 'unix']),
+      host: stringOption,
+      port: positiveIntegerOption,
+      path: stringOption,
+      facility: (value) =>
+        typeof value === 'number'
+          ? accept(
+              (code) => Number.isInteger(code) && (code as number) >= 0 && (code as number) <= 23,
+              'a facility code from 0 to 23'
+            )(value)
+          : oneOf(SYSLOG_FACILITIES)(value),
+      appName: stringOption,
+      hostname: stringOption,
+      framing: oneOf(['octet-counting', 'newline']),
+      severities: accept(
+        (value) =>
+          isRecord(value) &&
+          Object.values(value).every(
+            (severity) => Number.isInteger(severity) && (severity as number) >= 0 && (severity as number) <= 7
+          ),
+        'an object mapping levels to syslog severities from 0 to 7'
+      ),
+    },
+    'syslog'
+  ),
+  shipping: objectOption(
+    {
+      url: accept(
+        (value) => typeof value === 'string' && /^https?:\/\/\S+$/.test(value),
+        'an http:// or https:// URL'
+      ),
+      headers: accept(
+        (value) => isRecord(value) && Object.values(value).every((header) => typeof header === 'string'),
+        'an object mapping header names to strings'
+      ),
+      gzip: booleanOption,
+      batchSize: positiveIntegerOption,
+      flushInterval: positiveIntegerOption,
+      timeout: positiveIntegerOption,
+      retries: accept((value) => Number.isSafeInteger(value) && (value as number) >= 0, 'a non-negative integer'),
+      retryDelay: positiveIntegerOption,
+      maxRetryDelay: positiveIntegerOption,
+      spool: booleanOption,
+      spoolDirectory: stringOption,
+      maxSpoolSize: sizeOption,
+    },
+    'shipping'
+  ),
+  enableConsoleLogging: booleanOption,
+  prettyPrint: booleanOption,
+  prettyTheme: oneOf(['default', 'doge']),
+  colorize: booleanOption,
+  collapseRepeats: (value) =>
+    typeof value === 'boolean'
+      ? { value }
+      : objectOption({ window: positiveIntegerOption }, 'collapseRepeats')(value),
+  timestampFormat: stringOption,
+  timezone: timezoneOption,
+  locale: stringOption,
+  silent: booleanOption,
+  handleExceptions: booleanOption,
+  handleRejections: booleanOption,
+  redact: (value) => {
+    const issues: string[] = []
+    const parsed = parseRedactOption(value, issues)
+    return issues.length > 0 ? { problem: issues.join('; ') } : { value: parsed }
+  },
+  sampling: objectOption(
+    {
+      rates: accept(
+        (value) =>
+          isRecord(value) &&
+          Object.values(value).every((rate) => Number.isSafeInteger(rate) && (rate as number) > 0),
+        'an object mapping levels to positive integers'
+      ),
+      rateLimit: objectOption(
+        {
+          max: positiveIntegerOption,
+          interval: positiveIntegerOption,
+          levels: accept(isStringArray, 'an array of levels'),
+        },
+        'rate limit'
+      ),
+    },
+    'sampling'
+  ),
+  customTransports: accept(
+    (value) =>
+      Array.isArray(value) &&
+      value.every((transport) => typeof transport === 'object' && transport !== null),
+    'an array of Winston transports'
+  ),
+  customFormat: accept(
+    (value) => isRecord(value) && typeof value.transform === 'function',
+    'a Winston format'
+  ),
+}
+
+/**
+ * Validates logger options from one source
+ *
+ * @param raw - The options to check
+ * @param source - Where the options came from, used to prefix issues
+ * @param issues - Receives a description of every problem found
+ * @returns The options, with sizes and redaction patterns normalized
+ * @internal
+ */
+const parseLoggerOptions = (
+  raw: unknown,
+  source: string,
+  issues: string[]
+): Partial<LoggerOptions<string>> => {
+  if (!isRecord(raw)) {
+    issues.push(`${source}: options must be an object (got ${describeValue(raw)})`)
+    return {}
+  }
+  const options: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) {
+      continue
+    }
+    if (!Object.prototype.hasOwnProperty.call(OPTION_PARSERS, key)) {
+      issues.push(`${source}: ${key} is not a logger option`)
+      continue
+    }
+    const result = OPTION_PARSERS[key as keyof LoggerOptions](value)
+    if (result.problem !== undefined) {
+      issues.push(`${source}: ${key} ${result.problem}`)
+    } else {
+      options[key] = result.value
+    }
+  }
+  return options as Partial<LoggerOptions<string>>
+}
+
+/**
+ * Converts an environment variable into the type its option expects
+ * @internal
+ */
+const fromEnvString = (option: keyof LoggerOptions, value: string): unknown => {
+  const parser = OPTION_PARSERS[option]
+  if (parser === booleanOption) {
+    const normalized = value.trim().toLowerCase()
+    if (['true', '1', 'yes', 'on'].includes(normalized)) return true
+    if (['false', '0', 'no', 'off'].includes(normalized)) return false
+  }
+  if (parser === positiveIntegerOption && /^\s*-?\d+\s*$/.test(value)) {
+    return Number(value)
+  }
+  return value
+}
+
+/**
+ * Reads logger options from a JSON, JavaScript or TypeScript config file
+ *
+ * @throws If the file type is not supported or the file cannot be read, parsed or imported
+ * @internal
+ */
+const readConfigFile = async (file: string): Promise<unknown> => {
+  const extension = path.extname(file).toLowerCase()
+  if (extension === '.json') {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8'))
+  }
+  if (!MODULE_EXTENSIONS.includes(extension) && !TYPESCRIPT_EXTENSIONS.includes(extension)) {
+    throw new Error(`unsupported file type "${extension}", use .json, .js, .mjs, .cjs or .ts`)
+  }
+  try {
+    const module = await import(pathToFileURL(file).href)
+    return module.default ?? module
+  } catch (error) {
+    // Node rejects TypeScript files unless a loader is registered
+    const { code } = error as { code?: unknown }
+    if (TYPESCRIPT_EXTENSIONS.includes(extension) && code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(
+        'TypeScript config files need Bun or a TypeScript loader such as tsx, use .json, .js, .mjs or .cjs with Node'
+      )
+    }
+    throw error
+  }
+}
+
+/**
+ * Loads logger options from environment defaults, a config file and environment variables
+ *
+ * @param loaderOptions - Where to look for configuration and code-level overrides
+ * @returns The merged and validated options, ready to pass to `createLogger`
+ * @throws {LoggerConfigError} Listing every invalid value, unknown key and unreadable file
+ *
+ * @remarks
+ * Sources are merged in this order, later sources taking precedence:
+ * 1. The defaults of the environment: `environment`, an `environment` option from the
+ *    other sources, or `NODE_ENV`, defaulting to `development`
+ * 2. The config file: `configFile`, or the first of {@link CONFIG_FILE_NAMES} found in `cwd`
+ * 3. Environment variables such as `LOG_LEVEL`, `LOG_DIR` and `LOG_CONSOLE` (see {@link ENV_VARIABLES})
+ * 4. `overrides` passed in code
+ *
+ * Every source is validated before anything is merged: unknown keys, wrong types,
+ * negative or fractional counts, malformed sizes and level names that the final
+ * level scheme doesn't define are all reported together.
+ *
+ * @example
+ * ```ts
+ * // LOG_LEVEL=debug LOG_MAX_SIZE=20MB node server.js
+ * const logger = createLogger(await loadLoggerOptions({ overrides: { logName: 'api' } }))
+ * ```
+ */
+export const loadLoggerOptions = async (
+  loaderOptions: ConfigLoaderOptions = {}
+): Promise<Partial<LoggerOptions<string>>> => {
+  const {
+    cwd = process.cwd(),
+    env: variables = process.env,
+    configFile,
+    overrides = {},
+  } = loaderOptions
+  const issues: string[] = []
+  const sources: { source: string; options: Partial<LoggerOptions<string>> }[] = []
+
+  const file =
+    configFile === false
+      ? undefined
+      : configFile !== undefined
+        ? path.resolve(cwd, configFile)
+        : CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((candidate) => fs.existsSync(candidate))
+  if (file) {
+    const source = path.relative(cwd, file) || file
+    try {
+      sources.push({ source, options: parseLoggerOptions(await readConfigFile(file), source, issues) })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      issues.push(`${source}: could not be loaded (${message})`)
+    }
+  }
+
+  for (const [variable, option] of Object.entries(ENV_VARIABLES)) {
+    const value = variables[variable]
+    if (value !== undefined && value !== '') {
+      const source = `environment variable ${variable}`
+      sources.push({
+        source,
+        options: parseLoggerOptions({ [option]: fromEnvString(option, value) }, source, issues),
+      })
+    }
+  }
+
+  sources.push({ source: 'overrides', options: parseLoggerOptions(overrides, 'overrides', issues) })
+
+  const configured: Partial<LoggerOptions<string>> = Object.assign({}, ...sources.map(({ options }) => options))
+  const environment =
+    loaderOptions.environment ?? configured.environment ?? (variables.NODE_ENV || 'development')
+  if (!isValidEnvironment(environment)) {
+    issues.push(
+      `environment must be one of ${listEnvironments().join(', ')} (got ${describeValue(environment)})`
+    )
+  }
+  const merged: Partial<LoggerOptions<string>> = {
+    ...(isValidEnvironment(environment) ? getEnvironmentOptions(environment) : {}),
+    ...configured,
+    environment,
+  }
+
+  const levels: LevelDefinitions =
+    merged.levels ?? levelSchemes[merged.levelScheme ?? 'npm'] ?? levelSchemes.npm
+  const levelNames = Object.keys(levels)
+  const checkLevel = (source: string, key: string, level: string) => {
+    if (!levelNames.includes(level)) {
+      issues.push(`${source}: ${key} must be one of ${levelNames.join(', ')} (got ${describeValue(level)})`)
+    }
+  }
+  for (const { source, options } of sources) {
+    if (options.level !== undefined) {
+      checkLevel(source, 'level', options.level)
+    }
+    for (const [module, level] of Object.entries(options.moduleLevels ?? {})) {
+      checkLevel(source, `moduleLevels.${module}`, level)
+    }
+    for (const level of Object.keys(options.sampling?.rates ?? {})) {
+      checkLevel(source, 'sampling.rates key', level)
+    }
+    for (const level of options.sampling?.rateLimit?.levels ?? []) {
+      checkLevel(source, 'sampling.rateLimit.levels entry', level)
+    }
+    for (const route of options.routes ?? []) {
+      const selection = route.levels ?? []
+      for (const level of Array.isArray(selection) ? selection : Object.values(selection)) {
+        checkLevel(source, `routes ${route.file} level`, level)
+      }
+    }
+    for (const level of Object.keys(options.syslog?.severities ?? {})) {
+      checkLevel(source, 'syslog.severities key', level)
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new LoggerConfigError('Invalid logger configuration', issues)
+  }
+  return merged
+}
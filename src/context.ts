@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import * as winston from 'winston'
+import type { LogContext } from './types'
+
+/**
+ * Storage holding the log context of the current asynchronous execution
+ * @internal
+ */
+const storage = new AsyncLocalStorage<LogContext>()
+
+/**
+ * Runs a function with a log context that is attached to every entry logged within it
+ *
+ * @param context - Fields to attach to log entries
+ * @param fn - The function to run
+ * @returns The return value of `fn`
+ *
+ * @remarks
+ * The context follows the asynchronous execution of `fn`, so entries logged from
+ * promises, timers and callbacks started inside it receive the same fields.
+ * Nested calls inherit the enclosing context, overriding fields with the same name.
+ *
+ * @example
+ * ```ts
+ * app.use((req, res, next) => {
+ *   runWithLogContext({ requestId: req.headers['x-request-id'] }, next)
+ * })
+ *
+ * // Anywhere down the call chain
+ * logger.info('Loading user') // includes requestId
+ * ```
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T =>
+  storage.run({ ...storage.getStore(), ...context }, fn)
+
+/**
+ * Gets the log context of the current asynchronous execution
+ *
+ * @returns The active context, or `undefined` outside of {@link runWithLogContext}
+ */
+export const getLogContext = (): LogContext | undefined => storage.getStore()
+
+/**
+ * Winston format that injects the active log context into every entry
+ *
+ * @remarks
+ * Fields already present on the entry, such as metadata passed to the log call
+ * or fields bound to a child logger, take precedence over context fields.
+ */
+export const logContextFormat = winston.format((info) => {
+  const context = storage.getStore()
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (!(key in info)) {
+        info[key] = value
+      }
+    }
+  }
+  return info
+})
@@ -0,0 +1,137 @@
+import type {
+  BuiltInEnvironment,
+  DefaultOptions,
+  Environment,
+  EnvironmentDefinition,
+  LoggerOptions,
+  LogLevel,
+} from './types'
+import { MB } from './utils'
+
+/**
+ * Default logger options for different environments
+ *
+ * @remarks
+ * Provides optimized configurations for development, production, and test environments:
+ * - Development: Debug-focused with console output and pretty printing
+ * - Production: Performance-focused with file rotation and minimal console output
+ * - Test: Minimal configuration suitable for automated testing
+ *
+ * All configurations use type assertion to ensure type safety
+ * @internal
+ */
+export const defaultOptions: DefaultOptions = {
+  development: {
+    level: 'debug' as LogLevel,
+    enableConsoleLogging: true,
+    enableFileLogging: true,
+    prettyPrint: true,
+    colorize: true,
+    maxFileSize: MB(5), // 5MB
+    maxFiles: 5,
+    separateErrorLog: true,
+    separateWarnLog: true,
+    useDailyRotation: false,
+  },
+  production: {
+    level: 'info' as LogLevel,
+    enableConsoleLogging: false,
+    enableFileLogging: true,
+    prettyPrint: false,
+    colorize: false,
+    maxFileSize: MB(10), // 10MB
+    maxFiles: 10,
+    separateErrorLog: true,
+    separateWarnLog: false,
+    useDailyRotation: true,
+  },
+  test: {
+    level: 'debug' as LogLevel,
+    enableConsoleLogging: false,
+    enableFileLogging: true,
+    prettyPrint: false,
+    colorize: false,
+    maxFileSize: MB(1), // 1MB
+    maxFiles: 2,
+    separateErrorLog: true,
+    separateWarnLog: false,
+    useDailyRotation: false,
+  },
+} as const
+
+/**
+ * Default options of every known environment, seeded with the built-in ones
+ * @internal
+ */
+const environments = new Map<string, Readonly<Partial<LoggerOptions<string>>>>(
+  (Object.keys(defaultOptions) as BuiltInEnvironment[]).map((name) => [name, defaultOptions[name]])
+)
+
+/**
+ * Type guard to check if a string is a valid environment
+ *
+ * @param env - The environment string to validate
+ * @returns True if the environment is built in or was registered with {@link defineEnvironment}
+ *
+ * @example
+ * ```ts
+ * if (isValidEnvironment('staging')) {
+ *   // Only executes after defineEnvironment('staging', ...)
+ * }
+ * ```
+ */
+export const isValidEnvironment = (env: string): env is Environment => environments.has(env)
+
+/**
+ * Lists the names of all known environments
+ *
+ * @returns The built-in environments followed by registered ones, in definition order
+ */
+export const listEnvironments = (): Environment[] => [...environments.keys()]
+
+/**
+ * Gets the default options of an environment
+ *
+ * @param env - The environment name
+ * @returns The environment's default options
+ * @throws If the environment is neither built in nor registered
+ */
+export const getEnvironmentOptions = (env: string): Readonly<Partial<LoggerOptions<string>>> => {
+  const options = environments.get(env)
+  if (!options) {
+    throw new Error(`Invalid environment: ${env} (expected one of ${listEnvironments().join(', ')})`)
+  }
+  return options
+}
+
+/**
+ * Registers an environment, or replaces the defaults of an existing one
+ *
+ * @param name - The environment name, as used in `NODE_ENV` or the `environment` option
+ * @param definition - Default options, optionally extending another environment
+ * @throws If the name is empty or the extended environment is unknown
+ *
+ * @remarks
+ * `extends` copies the other environment's defaults at definition time, so later
+ * changes to that environment don't affect this one. Without `extends`, only the
+ * given options are set and everything else uses the library defaults.
+ *
+ * @example
+ * ```ts
+ * defineEnvironment('staging', { extends: 'production', level: 'debug' })
+ * defineEnvironment('ci', { extends: 'test', enableFileLogging: false })
+ *
+ * // NODE_ENV=staging, or explicitly:
+ * const logger = createLogger({ environment: 'staging' })
+ * ```
+ */
+export const defineEnvironment = (name: string, definition: EnvironmentDefinition = {}): void => {
+  if (!name) {
+    throw new Error('Environment name must not be empty')
+  }
+  const { extends: base, ...overrides } = definition
+  environments.set(name, {
+    ...(base === undefined ? {} : getEnvironmentOptions(base)),
+    ...overrides,
+  })
+}
@@ -0,0 +1,281 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import { LEVEL, SPLAT } from 'triple-beam'
+import type { SerializedError, StructuredLogEntry } from './types'
+
+/**
+ * Converts an Error into a plain, JSON-safe object
+ *
+ * @param error - The error to serialize
+ * @param seen - Objects already visited, used to break circular references
+ * @returns A plain object with the error's name, message, stack, `code`, own properties,
+ *   `cause` chain and, for `AggregateError`, the aggregated errors
+ *
+ * @remarks
+ * `cause` and `errors` are serialized recursively, errors among them with this function
+ * and other values with {@link toSerializable}. An error that refers back to itself or
+ * to an error higher up the chain is replaced with `'[Circular]'`.
+ *
+ * @example
+ * ```ts
+ * const err = Object.assign(new Error('Not found', { cause: ioError }), { code: 'ENOENT' })
+ * serializeError(err)
+ * // { name: 'Error', message: 'Not found', stack: '...', code: 'ENOENT', cause: { name: 'Error', ... } }
+ * ```
+ */
+export const serializeError = (
+  error: Error,
+  seen: WeakSet<object> = new WeakSet()
+): SerializedError => {
+  const added = !seen.has(error)
+  seen.add(error)
+  try {
+    const serialized: SerializedError = {
+      name: error.name,
+      message: error.message,
+    }
+    if (error.stack) {
+      serialized.stack = error.stack
+    }
+    // `code` may be defined on the prototype or as a getter, as in Node.js system errors
+    const { code, cause, errors } = error as Error & { code?: unknown; cause?: unknown; errors?: unknown }
+    if (code !== undefined) {
+      serialized.code = toSerializable(code, seen)
+    }
+    for (const [key, value] of Object.entries(error)) {
+      serialized[key] = toSerializable(value, seen)
+    }
+    if (cause !== undefined) {
+      serialized.cause = toSerializable(cause, seen)
+    }
+    if (Array.isArray(errors)) {
+      serialized.errors = errors.map((item) => toSerializable(item, seen))
+    }
+    return serialized
+  } finally {
+    if (added) {
+      seen.delete(error)
+    }
+  }
+}
+
+/**
+ * Copies an error without the level Winston may have set on it
+ *
+ * @param error - The error passed to a log call
+ * @returns A copy with the same prototype and own properties, except `level` and the `LEVEL` symbol
+ * @internal
+ */
+const withoutLevel = (error: Error): Error => {
+  const copy = Object.create(Object.getPrototypeOf(error)) as Error
+  for (const key of Reflect.ownKeys(error)) {
+    if (key !== 'level' && key !== LEVEL) {
+      Object.defineProperty(copy, key, Object.getOwnPropertyDescriptor(error, key) as PropertyDescriptor)
+    }
+  }
+  return copy
+}
+
+/**
+ * Turns an error logged as the entry itself (`logger.error(err)`) into an entry holding it under `error`
+ *
+ * @param error - The error, with the level Winston set on it
+ * @returns A new entry with the error's level and message, holding a copy of the error without the level
+ * @internal
+ */
+export const toErrorEntry = (error: Error): Logform.TransformableInfo => {
+  const fields = error as Error & Partial<Logform.TransformableInfo>
+  // Winston sets the level on the error itself, the copy leaves it out
+  const entry = { level: fields.level, [LEVEL]: fields[LEVEL], message: error.message, error: withoutLevel(error) }
+  return entry as Logform.TransformableInfo
+}
+
+/**
+ * Winston format that moves errors passed to a log call into the `error` field
+ *
+ * @remarks
+ * Winston hands errors on in shapes that lose their details once transports copy the entry:
+ * - `logger.error(err)`: the entry is the error itself, whose message and stack are not enumerable
+ * - `logger.error('Failed', err)`: the error's message is appended to the message and only
+ *   its stack and enumerable properties are copied
+ * - `logger.log({ level: 'error', message: err })`: the message is the error
+ *
+ * Each becomes an entry with a plain message and the error under `error`, which the output
+ * formats serialize with {@link serializeError}. An `error` field given by the caller is kept.
+ * @internal
+ */
+export const errorFieldFormat = winston.format((info) => {
+  if (info instanceof Error) {
+    return toErrorEntry(info)
+  }
+
+  if (info.message instanceof Error) {
+    const error = info.message
+    info.message = error.message
+    info.error ??= withoutLevel(error)
+    return info
+  }
+
+  const splat = info[SPLAT]
+  const error = Array.isArray(splat) ? splat.find((arg): arg is Error => arg instanceof Error) : undefined
+  if (!error || info.error !== undefined) {
+    return info
+  }
+  // Undo Winston's merge of the error into the entry
+  if (info.stack === error.stack) {
+    for (const key of ['stack', 'cause', ...Object.keys(error)]) {
+      if (key !== 'level' && info[key] === (error as unknown as Record<string, unknown>)[key]) {
+        delete info[key]
+      }
+    }
+    const suffix = ` ${error.message}`
+    if (typeof info.message === 'string' && info.message.endsWith(suffix)) {
+      info.message = info.message.slice(0, -suffix.length)
+    }
+  }
+  info.error = withoutLevel(error)
+  return info
+})
+
+/**
+ * Recursively converts a value into something `JSON.stringify` can handle
+ *
+ * @param value - The value to convert
+ * @param seen - Objects already visited, used to break circular references
+ * @returns A JSON-safe copy of the value
+ *
+ * @remarks
+ * Errors are serialized with {@link serializeError}, bigints become strings
+ * and circular references are replaced with `'[Circular]'`.
+ */
+export const toSerializable = (
+  value: unknown,
+  seen: WeakSet<object> = new WeakSet()
+): unknown => {
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (seen.has(value)) {
+    return '[Circular]'
+  }
+  seen.add(value)
+  try {
+    if (value instanceof Error) {
+      return serializeError(value, seen)
+    }
+    if (value instanceof Date) {
+      return value.toISOString()
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => toSerializable(item, seen))
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        toSerializable(item, seen),
+      ])
+    )
+  } finally {
+    seen.delete(value)
+  }
+}
+
+/**
+ * Builds a structured entry from a Winston info object
+ *
+ * @param info - The Winston info object
+ * @param logName - Name of the logger that produced the entry
+ * @returns A plain object with timestamp, level, logName, message and all metadata
+ *
+ * @remarks
+ * When the logged value itself is an Error (e.g. `logger.error(err)`),
+ * it is serialized under the `error` key.
+ */
+export const createStructuredEntry = (
+  info: Logform.TransformableInfo,
+  logName: string
+): StructuredLogEntry => {
+  const { level, message, timestamp, ...meta } = info
+  const entry: StructuredLogEntry = {
+    timestamp: String(timestamp ?? new Date().toISOString()),
+    level,
+    logName,
+    message: toSerializable(message),
+    ...(toSerializable(meta) as Record<string, unknown>),
+  }
+  if (info instanceof Error) {
+    entry.error = serializeError(info)
+  }
+  return entry
+}
+
+/**
+ * Creates a Winston format that writes one JSON object per line
+ *
+ * @param logName - Name of the logger, included in every entry
+ * @returns A Winston format producing newline-delimited JSON
+ *
+ * @example
+ * ```ts
+ * new winston.transports.File({
+ *   filename: 'app.log',
+ *   format: winston.format.combine(winston.format.timestamp(), structuredFormat('app')),
+ * })
+ * ```
+ */
+export const structuredFormat = (logName: string): Logform.Format =>
+  winston.format.printf((info) =>
+    JSON.stringify(createStructuredEntry(info, logName))
+  )
+
+/**
+ * Keys of a Winston info object that are not considered metadata
+ * @internal
+ */
+const CORE_KEYS = new Set(['level', 'message', 'timestamp'])
+
+/**
+ * Extracts the metadata fields from a Winston info object
+ *
+ * @param info - The Winston info object
+ * @returns All enumerable fields except level, message and timestamp
+ *
+ * @remarks
+ * This includes fields bound through child loggers as well as
+ * metadata objects passed with individual log calls.
+ */
+export const getMetadata = (
+  info: Logform.TransformableInfo
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(info).filter(([key]) => !CORE_KEYS.has(key))
+  )
+
+/**
+ * Renders metadata as space separated `key=value` pairs
+ *
+ * @param meta - The metadata to render
+ * @returns The rendered pairs with a leading space, or an empty string when there is no metadata
+ *
+ * @remarks
+ * Strings without whitespace or quotes are written as-is, everything else is JSON encoded.
+ *
+ * @example
+ * ```ts
+ * formatMetadata({ requestId: 'abc', tenant: 'acme corp' })
+ * // ' requestId=abc tenant="acme corp"'
+ * ```
+ */
+export const formatMetadata = (meta: Record<string, unknown>): string =>
+  Object.entries(meta)
+    .map(([key, value]) => {
+      const rendered =
+        typeof value === 'string' && /^[^\s"=]+$/.test(value)
+          ? value
+          : JSON.stringify(toSerializable(value))
+      return ` ${key}=${rendered}`
+    })
+    .join('')
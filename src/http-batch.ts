@@ -0,0 +1,336 @@
+import * as fs from 'fs'
+import TransportStream from 'winston-transport'
+import { promisify } from 'util'
+import { gzip } from 'zlib'
+import { MESSAGE } from 'triple-beam'
+import type { FlushableTransport, HttpBatchStats, HttpBatchTransportOptions, SafePath } from './types'
+import { MB, joinSafePaths } from './utils'
+
+/**
+ * Promise version of `zlib.gzip`
+ * @internal
+ */
+const gzipAsync = promisify(gzip)
+
+/**
+ * Outcome of a failed delivery
+ * @internal
+ */
+type DeliveryFailure = {
+  error: Error
+  /** Whether the endpoint may accept the batch later (network errors, 408, 429 and 5xx) */
+  retryable: boolean
+}
+
+/**
+ * Checks whether a response status is worth retrying
+ * @internal
+ */
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500
+
+/**
+ * Resolves after a delay without keeping the process alive
+ * @internal
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms).unref()
+  })
+
+/**
+ * Winston transport that POSTs entries in NDJSON batches to an HTTP endpoint
+ *
+ * @remarks
+ * Entries are collected until `batchSize` entries are buffered or `flushInterval` milliseconds
+ * have passed, and sent one batch at a time with `Content-Type: application/x-ndjson` (gzip
+ * compressed unless `gzip` is `false`). Network errors, timeouts, 408, 429 and 5xx responses are
+ * retried with exponential backoff; other responses drop the batch.
+ *
+ * Batches that still fail are written to the spool directory. From then on new batches are
+ * spooled too, keeping their order, and the spool is replayed every `maxRetryDelay` milliseconds
+ * until the endpoint accepts it again. Spool files left by a previous process are replayed on
+ * start. Closing the transport sends what is buffered once and spools it if that fails.
+ *
+ * Delivery failures are emitted as `warn` events and counted in `stats`.
+ *
+ * @example
+ * ```ts
+ * const transport = new HttpBatchTransport({
+ *   url: 'https://collector.internal/v1/logs',
+ *   headers: { Authorization: `Bearer ${process.env.COLLECTOR_TOKEN}` },
+ *   spoolDirectory: createSafePath('/var/spool/api-logs'),
+ *   format: structuredFormat('api'),
+ * })
+ * ```
+ */
+export class HttpBatchTransport extends TransportStream implements FlushableTransport {
+  /** Endpoint receiving the batches */
+  readonly url: string
+
+  private readonly headers: Readonly<Record<string, string>>
+  private readonly gzip: boolean
+  private readonly batchSize: number
+  private readonly timeout: number
+  private readonly retries: number
+  private readonly retryDelay: number
+  private readonly maxRetryDelay: number
+  private readonly spoolDirectory?: SafePath
+  private readonly maxSpoolSize: number
+  private readonly timer: NodeJS.Timeout
+
+  private buffer: string[] = []
+  private batches: string[][] = []
+  /** Serializes sending, spooling and replaying, so batches keep their order */
+  private queue: Promise<void> = Promise.resolve()
+  private unavailable = false
+  private recoveryTimer?: NodeJS.Timeout
+  private spoolBytes = 0
+  private spoolSequence = 0
+  private closing = false
+  private readonly whenClosed = new Promise<void>((resolve) => this.once('closed', () => resolve()))
+  private readonly counters = { sent: 0, dropped: 0, spooled: 0, retries: 0 }
+
+  constructor(options: HttpBatchTransportOptions) {
+    super(options)
+    const {
+      url,
+      headers = {},
+      gzip = true,
+      batchSize = 100,
+      flushInterval = 1000,
+      timeout = 10_000,
+      retries = 5,
+      retryDelay = 500,
+      maxRetryDelay = 30_000,
+      spoolDirectory,
+      maxSpoolSize = MB(100),
+    } = options
+
+    this.url = url
+    this.headers = headers
+    this.gzip = gzip
+    this.batchSize = batchSize
+    this.timeout = timeout
+    this.retries = retries
+    this.retryDelay = retryDelay
+    this.maxRetryDelay = maxRetryDelay
+    this.spoolDirectory = spoolDirectory
+    this.maxSpoolSize = maxSpoolSize
+
+    if (spoolDirectory) {
+      fs.mkdirSync(spoolDirectory, { recursive: true, mode: 0o700 })
+      const files = this.spoolFiles()
+      this.spoolBytes = files.reduce((total, file) => total + fs.statSync(file).size, 0)
+      if (files.length > 0) {
+        this.unavailable = true
+        this.scheduleRecovery(0)
+      }
+    }
+
+    this.timer = setInterval(() => {
+      void this.flush()
+    }, flushInterval)
+    this.timer.unref()
+  }
+
+  /**
+   * Entries sent, spooled, dropped and still pending, and requests retried
+   */
+  get stats(): HttpBatchStats {
+    const pending = this.buffer.length + this.batches.reduce((total, batch) => total + batch.length, 0)
+    return { ...this.counters, pending }
+  }
+
+  /**
+   * Resolves once the transport is closed and its last batch sent, spooled or dropped
+   */
+  flushed(): Promise<void> {
+    return this.whenClosed
+  }
+
+  /**
+   * Adds the entry's JSON line to the current batch and sends the batch once it holds `batchSize` entries
+   */
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    if (this.closing) {
+      this.counters.dropped++
+      callback()
+      return
+    }
+    this.buffer.push(String(info[MESSAGE] ?? JSON.stringify(info)))
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush()
+    }
+    callback()
+  }
+
+  /**
+   * Sends the buffered entries
+   *
+   * @returns A promise resolving once every entry buffered before the call has been sent, spooled or dropped
+   */
+  flush(): Promise<void> {
+    if (this.buffer.length > 0) {
+      this.batches.push(this.buffer)
+      this.buffer = []
+    }
+    return this.enqueue(() => this.drain())
+  }
+
+  /**
+   * Stops the flush and recovery timers and sends the last batch once, spooling it if that fails
+   *
+   * @remarks
+   * Emits `closed` once done. Entries are sent without retries, so shutdown is not held up by an outage.
+   */
+  close(): void {
+    if (this.closing) {
+      return
+    }
+    this.closing = true
+    clearInterval(this.timer)
+    clearTimeout(this.recoveryTimer)
+    void this.flush().then(() => {
+      this.emit('closed')
+    })
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error: unknown) => {
+      this.emit('warn', error)
+    })
+    return this.queue
+  }
+
+  /**
+   * Sends queued batches one by one, spooling them while the endpoint is unavailable
+   */
+  private async drain(): Promise<void> {
+    for (let batch = this.batches.shift(); batch; batch = this.batches.shift()) {
+      if (this.unavailable) {
+        await this.spool(batch)
+        continue
+      }
+      const failure = await this.deliver(batch, this.closing ? 0 : this.retries)
+      if (!failure) {
+        this.counters.sent += batch.length
+      } else if (failure.retryable && this.spoolDirectory) {
+        this.unavailable = true
+        await this.spool(batch)
+        this.scheduleRecovery(this.maxRetryDelay)
+      } else {
+        this.counters.dropped += batch.length
+      }
+    }
+  }
+
+  /**
+   * POSTs a batch, retrying with exponential backoff
+   *
+   * @returns `undefined` once the endpoint accepted the batch, otherwise the last failure
+   */
+  private async deliver(lines: string[], retries: number): Promise<DeliveryFailure | undefined> {
+    const payload = `${lines.join('\n')}\n`
+    const body = this.gzip ? await gzipAsync(payload) : payload
+
+    for (let attempt = 0; ; attempt++) {
+      const failure = await this.post(body)
+      if (!failure) {
+        return undefined
+      }
+      this.emit('warn', failure.error)
+      if (!failure.retryable || attempt >= retries || this.closing) {
+        return failure
+      }
+      this.counters.retries++
+      await sleep(Math.min(this.retryDelay * 2 ** attempt, this.maxRetryDelay))
+    }
+  }
+
+  private async post(body: string | Buffer): Promise<DeliveryFailure | undefined> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/x-ndjson',
+          ...(this.gzip ? { 'content-encoding': 'gzip' } : {}),
+          ...this.headers,
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeout),
+      })
+      await response.arrayBuffer()
+      return response.ok
+        ? undefined
+        : {
+            error: new Error(`Log shipping to ${this.url} failed with status ${response.status}`),
+            retryable: isRetryableStatus(response.status),
+          }
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error(String(error)), retryable: true }
+    }
+  }
+
+  /**
+   * Spool files in the order they were written
+   */
+  private spoolFiles(): SafePath[] {
+    const directory = this.spoolDirectory
+    if (!directory) {
+      return []
+    }
+    return fs
+      .readdirSync(directory)
+      .filter((file) => file.endsWith('.ndjson'))
+      .sort()
+      .map((file) => joinSafePaths(directory, file))
+  }
+
+  private async spool(lines: string[]): Promise<void> {
+    const payload = `${lines.join('\n')}\n`
+    const bytes = Buffer.byteLength(payload)
+    if (!this.spoolDirectory || this.spoolBytes + bytes > this.maxSpoolSize) {
+      this.counters.dropped += lines.length
+      return
+    }
+    // Timestamp and sequence keep the names in write order
+    const name = `${Date.now()}-${String(this.spoolSequence++).padStart(6, '0')}.ndjson`
+    await fs.promises.writeFile(joinSafePaths(this.spoolDirectory, name), payload, { mode: 0o600 })
+    this.spoolBytes += bytes
+    this.counters.spooled += lines.length
+  }
+
+  private scheduleRecovery(delay: number): void {
+    if (this.recoveryTimer || this.closing) {
+      return
+    }
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = undefined
+      void this.enqueue(() => this.replay())
+    }, delay)
+    this.recoveryTimer.unref()
+  }
+
+  /**
+   * Sends spooled batches oldest first, then resumes sending directly
+   */
+  private async replay(): Promise<void> {
+    for (const file of this.spoolFiles()) {
+      if (this.closing) {
+        return
+      }
+      const payload = await fs.promises.readFile(file, 'utf-8')
+      const lines = payload.split('\n').filter(Boolean)
+      const failure = await this.deliver(lines, 0)
+      if (failure?.retryable) {
+        this.scheduleRecovery(this.maxRetryDelay)
+        return
+      }
+      await fs.promises.rm(file, { force: true })
+      this.spoolBytes -= Buffer.byteLength(payload)
+      this.counters[failure ? 'dropped' : 'sent'] += lines.length
+    }
+    this.unavailable = false
+    await this.drain()
+  }
+}
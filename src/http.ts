@@ -0,0 +1,271 @@
+import { randomUUID } from 'crypto'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { ACCESS_ENTRY } from './access-log'
+import { runWithLogContext } from './context'
+import { loggerLevel } from './levels'
+import { elapsedMs } from './timing'
+import type {
+  HttpAccessFields,
+  HttpRequestSummary,
+  HttpStatusClass,
+  LogLevel,
+  RequestLoggingOptions,
+  TypedLogger,
+} from './types'
+
+/**
+ * Request headers as returned by Node's `IncomingMessage`, with lowercase names
+ * @internal
+ */
+type Headers = HttpRequestSummary['headers']
+
+/**
+ * Preferred levels of each status class, resolved against the logger's levels
+ * @internal
+ */
+const STATUS_LEVELS: Readonly<Record<HttpStatusClass, readonly string[]>> = {
+  '1xx': ['info'],
+  '2xx': ['info'],
+  '3xx': ['info'],
+  '4xx': ['warn', 'warning'],
+  '5xx': ['error'],
+}
+
+/**
+ * Gets the first value of a request header
+ * @internal
+ */
+const header = (headers: Headers, name: string): string | undefined => {
+  const value = headers[name.toLowerCase()]
+  return (Array.isArray(value) ? value[0] : value) || undefined
+}
+
+/**
+ * Request IDs taken from headers: up to 128 letters, digits and `-_.:`, so they cannot inject text into log lines
+ * @internal
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+/**
+ * Checks the `skip` option against a request
+ * @internal
+ */
+const isSkipped = (skip: RequestLoggingOptions<string>['skip'], request: HttpRequestSummary): boolean => {
+  if (typeof skip === 'function') {
+    return skip(request)
+  }
+  const path = request.url.split('?')[0]
+  return (skip ?? []).some((rule) => (typeof rule === 'string' ? rule === path : rule.test(path)))
+}
+
+/**
+ * Shared request logic of the Node and fetch middleware
+ * @internal
+ */
+const createAccessLogger = <L extends string>(logger: TypedLogger<L>, options: RequestLoggingOptions<L>) => {
+  const { skip, requestIdHeader = 'x-request-id', generateRequestId = randomUUID, trustProxy = false } = options
+  const levels = logger.levels
+
+  return {
+    requestIdHeader,
+    /** Whether the request is logged at all */
+    accepts: (request: HttpRequestSummary) => !isSkipped(skip, request),
+    /** Takes the request ID from the headers if it is safe to log, otherwise generates one */
+    requestId: (headers: Headers) => {
+      const incoming = header(headers, requestIdHeader)
+      return incoming !== undefined && REQUEST_ID_PATTERN.test(incoming) ? incoming : generateRequestId()
+    },
+    /** Takes the client address from `X-Forwarded-For` when proxies are trusted */
+    clientIp: (headers: Headers, remoteAddress: string | undefined) =>
+      (trustProxy ? header(headers, 'x-forwarded-for')?.split(',')[0].trim() : undefined) || remoteAddress,
+    /** Writes the access entry at the level of its status class */
+    log: (fields: HttpAccessFields) => {
+      const statusClass = `${Math.min(Math.max(Math.floor(fields.status / 100), 1), 5)}xx` as HttpStatusClass
+      const level =
+        fields.aborted && fields.status < 400
+          ? loggerLevel(levels, STATUS_LEVELS['4xx'], 'most')
+          : options.levels?.[statusClass] ?? loggerLevel(levels, STATUS_LEVELS[statusClass], 'least')
+      const entry = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+      logger.log(level, `${fields.method} ${fields.url} ${fields.status}`, { ...entry, [ACCESS_ENTRY]: true })
+    },
+  }
+}
+
+/**
+ * Creates request logging middleware for Node's HTTP server and Connect-style frameworks
+ *
+ * @param logger - The logger access entries are written to
+ * @param options - Levels per status class, skip rules, request ID and client address handling
+ * @returns A `(req, res, next?)` middleware
+ *
+ * @remarks
+ * Writes one structured access entry per request once the response has been sent (or the client
+ * disconnected): method, url, route, status, duration, bytes, client IP, user agent and request ID.
+ * The request ID is taken from the `x-request-id` header if it is at most 128 letters, digits and
+ * `-_.:`, or generated otherwise. It is echoed in the response header and bound with
+ * {@link runWithLogContext}, so every entry logged while handling the request carries it. Works with Express, Connect and `http.createServer`; with Fastify, pass
+ * `request.raw` and `reply.raw` from an `onRequest` hook.
+ *
+ * @example
+ * ```ts
+ * app.use(requestLoggingMiddleware(logger, { skip: ['/health'] }))
+ * // INFO: GET /users/42 200 method=GET url=/users/42 route=/users/:id status=200 durationMs=3.42 bytes=512 ...
+ *
+ * fastify.addHook('onRequest', (request, reply, done) =>
+ *   requestLoggingMiddleware(logger)(request.raw, reply.raw, done)
+ * )
+ * ```
+ */
+export const requestLoggingMiddleware = <L extends string = LogLevel>(
+  logger: TypedLogger<L>,
+  options: RequestLoggingOptions<L> = {}
+) => {
+  const access = createAccessLogger(logger, options)
+
+  return (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): void => {
+    // Express rewrites `url` in mounted routers but keeps the full path in `originalUrl`
+    const request = req as IncomingMessage & { originalUrl?: string; baseUrl?: string; route?: { path?: unknown } }
+    const summary = { method: req.method ?? 'GET', url: request.originalUrl ?? req.url ?? '/', headers: req.headers }
+    if (!access.accepts(summary)) {
+      next?.()
+      return
+    }
+
+    const start = performance.now()
+    const requestId = access.requestId(req.headers)
+    if (!res.headersSent) {
+      res.setHeader(access.requestIdHeader, requestId)
+    }
+
+    // Count the body bytes, as chunked responses have no Content-Length
+    let bytes = 0
+    const count = (chunk: unknown, encoding?: unknown) => {
+      if (typeof chunk === 'string') {
+        bytes += Buffer.byteLength(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : undefined)
+      } else if (chunk instanceof Uint8Array) {
+        bytes += chunk.byteLength
+      }
+    }
+    const { write, end } = res
+    res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+      count(chunk, args[0])
+      return write.apply(this, [chunk, ...args] as Parameters<typeof write>)
+    } as typeof write
+    res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+      if (typeof chunk !== 'function') {
+        count(chunk, args[0])
+      }
+      return end.apply(this, [chunk, ...args] as Parameters<typeof end>)
+    } as typeof end
+
+    let logged = false
+    const done = () => {
+      if (logged) {
+        return
+      }
+      logged = true
+      const route = typeof request.route?.path === 'string' ? `${request.baseUrl ?? ''}${request.route.path}` : undefined
+      access.log({
+        method: summary.method,
+        url: summary.url,
+        route,
+        status: res.statusCode,
+        durationMs: elapsedMs(start),
+        bytes,
+        ip: access.clientIp(req.headers, req.socket?.remoteAddress),
+        userAgent: header(req.headers, 'user-agent'),
+        referer: header(req.headers, 'referer'),
+        httpVersion: req.httpVersion,
+        requestId,
+        aborted: res.writableFinished ? undefined : true,
+      })
+    }
+    res.once('finish', done)
+    res.once('close', done)
+
+    runWithLogContext({ requestId }, () => next?.())
+  }
+}
+
+/**
+ * Creates request logging for fetch-style frameworks such as Hono, Bun.serve and Deno
+ *
+ * @param logger - The logger access entries are written to
+ * @param options - Levels per status class, skip rules, request ID and client address handling
+ * @returns A function that runs a handler for a `Request` and logs the resulting `Response`
+ *
+ * @remarks
+ * Same access entry and request ID handling as {@link requestLoggingMiddleware}. The byte count
+ * is taken from the response's `Content-Length` header, and the client address from
+ * `X-Forwarded-For` when `trustProxy` is on or from the `ip` passed by the caller.
+ * A handler that throws is logged with status 500 and the error is rethrown.
+ *
+ * @example
+ * ```ts
+ * const logRequest = fetchRequestLogging(logger)
+ *
+ * // Hono
+ * app.use((c, next) =>
+ *   logRequest(c.req.raw, async () => {
+ *     await next()
+ *     return c.res
+ *   }, { route: c.req.routePath })
+ * )
+ *
+ * // Bun.serve
+ * Bun.serve({ fetch: (request, server) => logRequest(request, () => handle(request), { ip: server.requestIP(request)?.address }) })
+ * ```
+ */
+export const fetchRequestLogging = <L extends string = LogLevel>(
+  logger: TypedLogger<L>,
+  options: RequestLoggingOptions<L> = {}
+) => {
+  const access = createAccessLogger(logger, options)
+
+  return async (
+    request: Request,
+    handler: () => Response | Promise<Response>,
+    details: { route?: string; ip?: string } = {}
+  ): Promise<Response> => {
+    const { pathname, search } = new URL(request.url)
+    const headers = Object.fromEntries(request.headers)
+    const summary = { method: request.method, url: `${pathname}${search}`, headers }
+    if (!access.accepts(summary)) {
+      return handler()
+    }
+
+    const start = performance.now()
+    const requestId = access.requestId(headers)
+    const log = (status: number, bytes?: number) =>
+      access.log({
+        method: summary.method,
+        url: summary.url,
+        route: details.route,
+        status,
+        durationMs: elapsedMs(start),
+        bytes,
+        ip: access.clientIp(headers, details.ip),
+        userAgent: header(headers, 'user-agent'),
+        referer: header(headers, 'referer'),
+        requestId,
+      })
+
+    let response: Response
+    try {
+      response = await runWithLogContext({ requestId }, handler)
+    } catch (error) {
+      log(500)
+      throw error
+    }
+    if (!response.headers.has(access.requestIdHeader)) {
+      try {
+        response.headers.set(access.requestIdHeader, requestId)
+      } catch {
+        // Headers of responses such as `Response.redirect` are immutable
+      }
+    }
+    const length = response.headers.get('content-length')
+    log(response.status, length === null ? undefined : Number(length))
+    return response
+  }
+}
@@ -31,7 +31,64 @@
  */
 
 // Export the default logger creation function
-export { createSimpleLogger, createLogger as default } from "./log-facotry";
+export { createChildLogger, createSimpleLogger, createLogger as default } from "./log-facotry";
+
+// Export log context propagation
+export { getLogContext, runWithLogContext } from "./context";
+
+// Export log level definitions
+export { defaultLevels, legacyLevels, levelSchemes, syslogLevels } from "./levels";
+
+// Export transports
+export { BufferedFileTransport } from "./buffered-file";
+export { HttpBatchTransport } from "./http-batch";
+export { SyslogTransport, syslogSeverities } from "./syslog";
+
+// Export logger registry and shutdown
+export { closeAll, getLogger, listLoggers, shutdown } from "./registry";
+
+// Export environment registry
+export { defineEnvironment, getEnvironmentOptions, listEnvironments } from "./environments";
+
+// Export configuration loading
+export { CONFIG_FILE_NAMES, ENV_VARIABLES, loadLoggerOptions, LoggerConfigError } from "./config";
+
+// Export runtime level control and live reconfiguration
+export { getLevel, reconfigureLogger, setLevel, setModuleLevel } from "./runtime";
+export { watchLoggerConfig } from "./watch";
+
+// Export sensitive data redaction
+export { createRedactor, REDACT_PATTERNS } from "./redact";
+
+// Export timestamp formatting
+export { createTimestampFormatter } from "./timestamp";
+
+// Export structured output helpers
+export { serializeError, structuredFormat } from "./formats";
+
+// Export the pretty console renderer
+export { prettyFormat } from "./pretty";
+
+// Export tracing spans and traceparent propagation
+export { formatTraceparent, getActiveSpan, parseTraceparent, startSpan, withSpan } from "./tracing";
+
+// Export HTTP request logging and the access log format
+export { fetchRequestLogging, requestLoggingMiddleware } from "./http";
+export { accessLogFormat } from "./access-log";
+
+// Export timing helpers
+export { startTimer, withTiming } from "./timing";
+
+// Export Result helpers and logged error handling
+export {
+  andThen,
+  mapResult,
+  tryCatch,
+  tryCatchLogged,
+  tryCatchSync,
+  tryCatchSyncLogged,
+  unwrapOr,
+} from "./utils/tryCatchWrapper";
 
 // Re-export types for TypeScript users
 export * from "./types";
@@ -0,0 +1,194 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import type { LevelDefinitions, LevelScheme, LevelSchemeLevels, LogLevel, SyslogLevel } from './types'
+
+/**
+ * Default log level definitions (the `npm` level scheme)
+ *
+ * @remarks
+ * Lower severities indicate higher priority, following the standard ordering
+ * error < warn < info < data < debug < verbose < silly. Spread these into a custom
+ * `levels` definition to extend the defaults rather than replace them.
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({
+ *   levels: { ...defaultLevels, audit: { severity: 7, color: 'white' } },
+ * })
+ * logger.audit('Permissions changed')
+ * ```
+ */
+export const defaultLevels: LevelDefinitions<LogLevel> = {
+  error: { severity: 0, color: 'red' },
+  warn: { severity: 1, color: 'yellow' },
+  info: { severity: 2, color: 'green' },
+  data: { severity: 3, color: 'magenta' },
+  debug: { severity: 4, color: 'blue' },
+  verbose: { severity: 5, color: 'cyan' },
+  silly: { severity: 6, color: 'grey' },
+} as const
+
+/**
+ * Log level definitions in the original loggerama3000 order (the `legacy` level scheme)
+ *
+ * @remarks
+ * In this order `debug` ranks above `warn` and `info`, so `level: 'warn'` still records debug entries.
+ * Only use it to keep the output of existing deployments unchanged.
+ */
+export const legacyLevels: LevelDefinitions<LogLevel> = {
+  error: { severity: 0, color: 'red' },
+  debug: { severity: 1, color: 'blue' },
+  warn: { severity: 2, color: 'yellow' },
+  data: { severity: 3, color: 'magenta' },
+  info: { severity: 4, color: 'green' },
+  verbose: { severity: 5, color: 'cyan' },
+  silly: { severity: 6, color: 'grey' },
+} as const
+
+/**
+ * RFC 5424 syslog severities (the `syslog` level scheme)
+ */
+export const syslogLevels: LevelDefinitions<SyslogLevel> = {
+  emerg: { severity: 0, color: 'bold red' },
+  alert: { severity: 1, color: 'bold yellow' },
+  crit: { severity: 2, color: 'red' },
+  error: { severity: 3, color: 'red' },
+  warning: { severity: 4, color: 'yellow' },
+  notice: { severity: 5, color: 'cyan' },
+  info: { severity: 6, color: 'green' },
+  debug: { severity: 7, color: 'blue' },
+} as const
+
+/**
+ * Level definitions of each built-in level scheme
+ */
+export const levelSchemes: Readonly<{ [S in LevelScheme]: LevelDefinitions<LevelSchemeLevels[S]> }> = {
+  legacy: legacyLevels,
+  npm: defaultLevels,
+  syslog: syslogLevels,
+} as const
+
+/**
+ * ANSI escape codes for the color names Winston understands
+ * @internal
+ */
+const ANSI_CODES: Readonly<Record<string, readonly [number, number]>> = {
+  bold: [1, 22],
+  dim: [2, 22],
+  italic: [3, 23],
+  underline: [4, 24],
+  inverse: [7, 27],
+  black: [30, 39],
+  red: [31, 39],
+  green: [32, 39],
+  yellow: [33, 39],
+  blue: [34, 39],
+  magenta: [35, 39],
+  cyan: [36, 39],
+  white: [37, 39],
+  gray: [90, 39],
+  grey: [90, 39],
+  blackBG: [40, 49],
+  redBG: [41, 49],
+  greenBG: [42, 49],
+  yellowBG: [43, 49],
+  blueBG: [44, 49],
+  magentaBG: [45, 49],
+  cyanBG: [46, 49],
+  whiteBG: [47, 49],
+}
+
+/**
+ * Converts level definitions into the severity map Winston expects
+ *
+ * @param levels - The level definitions
+ * @returns A mapping of level names to severities
+ */
+export const toWinstonLevels = (levels: LevelDefinitions): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(levels).map(([name, { severity }]) => [name, severity])
+  )
+
+/**
+ * Finds the level used for a routing role such as the separate error log
+ *
+ * @param levels - The level definitions
+ * @param candidates - Level names to look for, in order of preference
+ * @returns The first candidate defined in `levels`, or `undefined` if none is
+ */
+export const resolveLevel = (
+  levels: LevelDefinitions,
+  candidates: readonly string[]
+): string | undefined => candidates.find((name) => name in levels)
+
+/**
+ * Finds the most or least severe level of a definition
+ *
+ * @param levels - The level definitions
+ * @param which - `'most'` for the highest priority level, `'least'` for the most verbose one
+ * @returns The name of the matching level
+ */
+export const extremeLevel = (
+  levels: LevelDefinitions,
+  which: 'most' | 'least'
+): string => {
+  const sorted = Object.entries(levels).sort(
+    ([, a], [, b]) => a.severity - b.severity
+  )
+  return (which === 'most' ? sorted[0] : sorted[sorted.length - 1])[0]
+}
+
+/**
+ * Finds the level of a logger used for a role such as failed or slow operations
+ *
+ * @param levels - The logger's severity map (`logger.levels`)
+ * @param candidates - Level names to look for, in order of preference
+ * @param fallback - `'most'` or `'least'` severe level used when no candidate is defined
+ * @returns The name of the matching level
+ */
+export const loggerLevel = (
+  levels: Record<string, number>,
+  candidates: readonly string[],
+  fallback: 'most' | 'least'
+): string =>
+  candidates.find((name) => name in levels) ??
+  extremeLevel(
+    Object.fromEntries(Object.entries(levels).map(([name, severity]) => [name, { severity }])),
+    fallback
+  )
+
+/**
+ * Wraps text in the ANSI codes of a (possibly space separated) color specification
+ *
+ * @param color - Color specification such as `red` or `bold white redBG`
+ * @param text - The text to colorize
+ * @returns The colorized text
+ * @internal
+ */
+export const applyColor = (color: string | undefined, text: string): string =>
+  (color ?? '')
+    .split(/\s+/)
+    .filter((name) => name in ANSI_CODES)
+    .reduce((result, name) => {
+      const [open, close] = ANSI_CODES[name]
+      return `\u001b[${open}m${result}\u001b[${close}m`
+    }, text)
+
+/**
+ * Creates a Winston format that colorizes the level and message of each entry
+ *
+ * @param levels - The level definitions providing the colors
+ * @returns A Winston format
+ *
+ * @remarks
+ * Unlike `winston.format.colorize`, the colors are scoped to this format
+ * instead of being registered globally, so loggers with different level
+ * definitions don't affect each other.
+ */
+export const levelColorFormat = (levels: LevelDefinitions): Logform.Format =>
+  winston.format((info) => {
+    const color = levels[info.level]?.color
+    info.message = applyColor(color, String(info.message))
+    info.level = applyColor(color, info.level)
+    return info
+  })()
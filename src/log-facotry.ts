@@ -1,160 +1,127 @@
 import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
 import * as winston from 'winston'
+import type { Logform } from 'winston'
 import DailyRotateFile from 'winston-daily-rotate-file'
+import { MESSAGE } from 'triple-beam'
+import { accessLogFormat } from './access-log'
+import { BufferedFileTransport } from './buffered-file'
+import { logContextFormat } from './context'
+import { errorFieldFormat, formatMetadata, getMetadata, structuredFormat, toErrorEntry } from './formats'
+import { getEnvironmentOptions } from './environments'
+import { HttpBatchTransport } from './http-batch'
+import { dogeConsoleFormat, prettyFormat } from './pretty'
 import type {
-  DefaultOptions,
   Environment,
   LogFileName,
   LogFileNameSuffix,
-  LoggerConfig,
+  LevelDefinitions,
+  LevelNames,
+  LevelScheme,
+  LoggerBindings,
   LoggerOptions,
   LogLevel,
   LogMessage,
-  MergedLoggerOptions
+  MergedLoggerOptions,
+  RouteFileSuffix,
+  TypedLogger
 } from './types'
+import { extremeLevel, levelSchemes, levelColorFormat, resolveLevel, toWinstonLevels } from './levels'
+import { createRedactor } from './redact'
+import { moduleLevelFormat, registerRuntime, runtimeRedactFormat, runtimeSamplingFormat } from './runtime'
+import { routeFormat } from './routes'
+import { createSampler, logSummary } from './sampling'
+import { SyslogTransport, syslogSeverities } from './syslog'
+import type { LoggerRuntime } from './runtime'
+import { createTimestampFormatter } from './timestamp'
 import { createSafePath, createSafePathWithSuffix, getDefaultLogPath, joinSafePaths, MB } from './utils'
 
 /**
- * Configuration object for Winston logger levels and colors
+ * Creates a Winston format that collapses identical consecutive console lines
  * 
- * Defines the hierarchy of log levels (error being highest priority) and
- * associates colors with each level for console output
+ * @param window - Milliseconds after the first held back repeat at which the count is printed
+ * @param emit - Writes a summary entry that is not part of a log call, e.g. through the console transport
+ * @returns The format to apply once the console line has been rendered, and a function
+ *   emitting the count of repeats still held back
  * 
  * @remarks
- * This is marked as `const` to ensure immutability throughout the application
+ * Entries are identical when level, message and metadata match; timestamps are ignored.
+ * The first line is printed and identical lines following it are held back and counted.
+ * The count is printed as `<line> (repeated 37×)` when a different line arrives, or when
+ * the window ends while repeats keep coming, so a retry loop prints one line per window.
+ * Summaries keep the level of the repeated entry. Call `flush` when the logger closes.
+ * Multi-line entries only repeat their first line in the count.
+ * Each call creates its own state, so every logger collapses its own console output.
  */
-const config: LoggerConfig = {
-  levels: {
-    error: 0,
-    debug: 1,
-    warn: 2,
-    data: 3,
-    info: 4,
-    verbose: 5,
-    silly: 6,
-  },
-  colors: {
-    error: 'red',
-    debug: 'blue',
-    warn: 'yellow',
-    data: 'magenta',
-    info: 'green',
-    verbose: 'cyan',
-    silly: 'grey',
-  },
-} as const
-
-// Add colors to Winston
-winston.addColors(config.colors)
+const collapseRepeatsFormat = (
+  window: number,
+  emit: (info: Logform.TransformableInfo) => void
+): { format: Logform.Format; flush: () => void } => {
+  let lastKey: string | undefined
+  let lastInfo: Logform.TransformableInfo | undefined
+  let lastLine = ''
+  let repeats = 0
+  let timer: NodeJS.Timeout | undefined
 
-/**
- * Default logger options for different environments
- * 
- * @remarks
- * Provides optimized configurations for development, production, and test environments:
- * - Development: Debug-focused with console output and pretty printing
- * - Production: Performance-focused with file rotation and minimal console output
- * - Test: Minimal configuration suitable for automated testing
- * 
- * All configurations use type assertion to ensure type safety
- */
-const defaultOptions: DefaultOptions = {
-  development: {
-    level: 'debug' as LogLevel,
-    enableConsoleLogging: true,
-    enableFileLogging: true,
-    prettyPrint: true,
-    colorize: true,
-    maxFileSize: MB(5), // 5MB
-    maxFiles: 5,
-    separateErrorLog: true,
-    separateWarnLog: true,
-    useDailyRotation: false,
-  },
-  production: {
-    level: 'info' as LogLevel,
-    enableConsoleLogging: false,
-    enableFileLogging: true,
-    prettyPrint: false,
-    colorize: false,
-    maxFileSize: MB(10), // 10MB
-    maxFiles: 10,
-    separateErrorLog: true,
-    separateWarnLog: false,
-    useDailyRotation: true,
-  },
-  test: {
-    level: 'debug' as LogLevel,
-    enableConsoleLogging: false,
-    enableFileLogging: true,
-    prettyPrint: false,
-    colorize: false,
-    maxFileSize: MB(1), // 1MB
-    maxFiles: 2,
-    separateErrorLog: true,
-    separateWarnLog: false,
-    useDailyRotation: false,
-  },
-} as const
+  const summary = () => `${lastLine.split('\n')[0]} (repeated ${repeats}×)`
+  const flush = () => {
+    clearTimeout(timer)
+    timer = undefined
+    if (repeats > 0 && lastInfo) {
+      emit({ ...lastInfo, [MESSAGE]: summary() })
+      repeats = 0
+    }
+  }
 
-/**
- * Type guard to check if a string is a valid environment
- * 
- * @param env - The environment string to validate
- * @returns True if the environment is valid ('development', 'production', or 'test')
- * 
- * @example
- * ```ts
- * if (isValidEnvironment('staging')) {
- *   // This won't execute as 'staging' is not a valid environment
- * }
- * ```
- */
-const isValidEnvironment = (env: string): env is Environment => 
-  ['development', 'production', 'test'].includes(env)
+  const format = winston.format((info) => {
+    const key = `${info.level} ${info.message}${formatMetadata(getMetadata(info))}`
+    if (key === lastKey) {
+      repeats++
+      if (!timer) {
+        timer = setTimeout(flush, window)
+        timer.unref()
+      }
+      return false
+    }
 
-/**
- * Custom Winston format for pretty-printing JSON logs
- * 
- * @remarks
- * Transforms JSON log messages into a more readable "doge meme" format
- * Example: `{"user": "john"}` becomes `< wow "user" such "john" >`
- * 
- * If the message isn't valid JSON or doesn't start with '{', it remains unchanged
- */
-const prettyConsoleFormat = winston.format((info) => {
-  if (typeof info.message === 'string' && info.message.startsWith('{')) {
-    try {
-      const parsed = JSON.parse(info.message)
-      info.message = `< wow ${Object.entries(parsed)
-        .map(
-          ([key, value]) =>
-            `${JSON.stringify(key)} such ${JSON.stringify(value)}`
-        )
-        .join(', ')} >`
-    } catch {
-      // Leave message unchanged if parsing fails
+    clearTimeout(timer)
+    timer = undefined
+    const line = String(info[MESSAGE])
+    if (repeats > 0) {
+      info[MESSAGE] = `${summary()}${os.EOL}${line}`
     }
-  }
-  return info
-})()
+    lastKey = key
+    lastInfo = info
+    lastLine = line
+    repeats = 0
+    return info
+  })()
+  return { format, flush }
+}
 
 /**
  * Creates a Winston logger with the specified options
  * 
+ * @typeParam L - Names of custom log levels, inferred from `options.levels`
+ * @typeParam S - The level scheme, inferred from `options.levelScheme`
  * @param options - Configuration options for the logger
- * @returns A configured Winston logger instance
+ * @returns A configured Winston logger instance with a method for every level
  * 
  * @remarks
  * This is the main function of the library. It creates a logger with:
- * - Environment-specific defaults (development, production, test)
+ * - Environment-specific defaults (development, production, test, or any registered with `defineEnvironment`)
  * - File and console transports based on configuration
- * - Optional daily log rotation
+ * - Optional daily log rotation, and an optional buffered writer for log files
  * - Separate error and warning log files
  * - Type-safe path handling
+ * - Automatic inclusion of the active log context (see `runWithLogContext`)
+ * - Optional redaction of sensitive data before any transport sees it
+ * - Standard (npm), legacy or syslog level schemes, or custom levels with per-logger colors
+ * - Per-module level overrides that can be changed at runtime (see `setLevel`)
  * 
- * The function will use environment-specific defaults based on NODE_ENV,
- * defaulting to 'development' if not specified.
+ * The function will use environment-specific defaults based on the `environment`
+ * option or NODE_ENV, defaulting to 'development' if neither is specified.
  * 
  * @example
  * Basic usage:
@@ -175,26 +142,49 @@ const prettyConsoleFormat = winston.format((info) => {
  * });
  * ```
  * 
- * @throws Will throw an error if the environment is invalid or if log directory creation fails
+ * @example
+ * Custom levels:
+ * ```ts
+ * const logger = createLogger({
+ *   levels: {
+ *     fatal: { severity: 0, color: 'bold red' },
+ *     audit: { severity: 1, color: 'magenta' },
+ *     info: { severity: 2, color: 'green' },
+ *   },
+ *   level: 'info'
+ * });
+ * logger.audit('Permissions changed');
+ * ```
+ * 
+ * @throws Will throw an error if the environment, level or timezone is invalid or if log directory creation fails
  */
-export const createLogger = (
-  options: Partial<LoggerOptions> = {}
-): winston.Logger => {
-  const env = process.env.NODE_ENV || 'development'
-  if (!process.env.NODE_ENV) {
+export const createLogger = <L extends string = never, S extends LevelScheme = 'npm'>(
+  options: Partial<LoggerOptions<L, S>> = {}
+): TypedLogger<LevelNames<L, S>> => {
+  const env = options.environment || process.env.NODE_ENV || 'development'
+  if (!options.environment && !process.env.NODE_ENV) {
     console.warn('NODE_ENV not set, defaulting to development environment')
   }
-  if (!isValidEnvironment(env)) {
-    throw new Error(`Invalid environment: ${env}`)
-  }
 
-  const defaultEnvOptions = defaultOptions[env]
-  const safeLogDirectory = options.logDirectory ? createSafePath(options.logDirectory) : getDefaultLogPath()
+  const defaultEnvOptions = getEnvironmentOptions(env)
+  const logDirectoryOption = options.logDirectory ?? defaultEnvOptions.logDirectory
+  const safeLogDirectory = logDirectoryOption ? createSafePath(logDirectoryOption) : getDefaultLogPath()
 
-  const finalOptions: MergedLoggerOptions = {
-    ...defaultEnvOptions,
-    ...options,
-    logName: options.logName ?? 'app',
+  const levels: LevelDefinitions =
+    options.levels ??
+    (options.levelScheme ? undefined : defaultEnvOptions.levels) ??
+    levelSchemes[options.levelScheme ?? defaultEnvOptions.levelScheme ?? 'npm']
+  const configuredModuleLevels = options.moduleLevels ?? defaultEnvOptions.moduleLevels ?? {}
+  for (const configuredLevel of [options.level, ...Object.values(configuredModuleLevels)]) {
+    if (configuredLevel !== undefined && !(configuredLevel in levels)) {
+      throw new Error(`Unknown log level: ${configuredLevel}`)
+    }
+  }
+
+  const finalOptions: MergedLoggerOptions<string> = {
+    ...(defaultEnvOptions as Partial<LoggerOptions<string>>),
+    ...(options as Partial<LoggerOptions<string>>),
+    logName: options.logName ?? defaultEnvOptions.logName ?? 'app',
     logDirectory: safeLogDirectory,
     maxFileSize: options.maxFileSize ?? defaultEnvOptions.maxFileSize ?? MB(5),
   }
@@ -206,17 +196,30 @@ export const createLogger = (
     enableFileLogging,
     enableConsoleLogging,
     prettyPrint,
+    prettyTheme,
     colorize,
+    collapseRepeats,
     maxFileSize,
     maxFiles,
     separateErrorLog,
     separateWarnLog,
+    routes,
     useDailyRotation,
+    fileOutputFormat,
+    fileWriter,
+    fileWriterOptions,
+    accessLog,
     timestampFormat,
+    timezone,
     locale,
     silent,
     handleExceptions,
     handleRejections,
+    moduleLevels,
+    redact,
+    sampling,
+    syslog,
+    shipping,
     customTransports,
     customFormat,
   } = finalOptions
@@ -239,52 +242,90 @@ export const createLogger = (
   }
 
   /**
-   * Format for timestamps with locale support
-   * Uses the specified locale (defaults to 'en-US') and formats date/time components
+   * Format for timestamps
+   * Uses `timestampFormat` and `timezone` when given, otherwise the locale's date/time format.
+   * Created up front so an invalid timezone fails at construction rather than on the first entry
    */
   const dateFormat = winston.format.timestamp({
-    format: () =>
-      new Date().toLocaleString(locale || 'en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-      }),
+    format: createTimestampFormatter({ format: timestampFormat, timezone, locale }),
+  })
+
+  /**
+   * Format for timestamps in structured files
+   * Falls back to ISO 8601 so entries stay machine-parseable
+   */
+  const structuredDateFormat = winston.format.timestamp({
+    format: createTimestampFormatter({ format: timestampFormat ?? 'iso', timezone, locale }),
   })
 
   /**
    * Format for log files
-   * Combines timestamp and formatted message with level in uppercase
+   * Text mode combines timestamp and formatted message with level in uppercase,
+   * JSON modes write one object per line with timestamp, logger name and all metadata
    */
-  const fileFormat = winston.format.combine(
-    dateFormat,
-    winston.format.printf(
-      (info): LogMessage =>
-        `${info.timestamp} ${info.level.toUpperCase()}: ${info.message}` as LogMessage
-    )
-  )
+  const fileFormat =
+    fileOutputFormat === 'json' || fileOutputFormat === 'ndjson'
+      ? winston.format.combine(structuredDateFormat, structuredFormat(logName))
+      : winston.format.combine(
+          dateFormat,
+          winston.format.printf(
+            (info): LogMessage =>
+              `${info.timestamp} ${info.level.toUpperCase()}: ${info.message}${formatMetadata(getMetadata(info))}` as LogMessage
+          )
+        )
+
+  /**
+   * Collapses identical consecutive console lines when `collapseRepeats` is enabled
+   * Summaries go straight to the console transport, which routes them to stdout or stderr by level
+   */
+  const repeatCollapser = collapseRepeats
+    ? collapseRepeatsFormat((collapseRepeats === true ? undefined : collapseRepeats.window) ?? 5000, (info) =>
+        consoleTransport.log?.(info, () => {})
+      )
+    : undefined
 
   /**
    * Format for console output
-   * Applies pretty printing and colorization based on configuration
+   * Pretty printing uses the rich renderer with a time-of-day timestamp, or the doge theme when chosen.
+   * Otherwise metadata is appended as `key=value` pairs.
+   * Identical consecutive lines are collapsed last, when `collapseRepeats` is enabled
    */
   const consoleFormat = winston.format.combine(
-    prettyPrint ? prettyConsoleFormat : winston.format.simple(),
-    colorize ? winston.format.colorize({ all: true }) : winston.format.simple(),
-    winston.format.printf((info) => String(info.message))
+    ...(prettyPrint && prettyTheme !== 'doge'
+      ? [
+          winston.format.timestamp({
+            format: createTimestampFormatter({ format: timestampFormat ?? 'HH:mm:ss.SSS', timezone, locale }),
+          }),
+          prettyFormat({ levels, logName, colorize }),
+        ]
+      : [
+          prettyPrint ? dogeConsoleFormat : winston.format.simple(),
+          colorize ? levelColorFormat(levels) : winston.format.simple(),
+          winston.format.printf((info) =>
+            prettyPrint
+              ? String(info.message)
+              : `${info.message}${formatMetadata(getMetadata(info))}`
+          ),
+        ]),
+    ...(repeatCollapser ? [repeatCollapser.format] : [])
   )
 
   const transports: winston.transport[] = []
 
+  /**
+   * Console transport
+   * Always created so console logging can be switched on at runtime (see `reconfigureLogger`)
+   * A custom format replaces the console format; repeats are still collapsed once it has rendered the line
+   */
+  const consoleTransport = new winston.transports.Console({
+    format: customFormat
+      ? winston.format.combine(customFormat, ...(repeatCollapser ? [repeatCollapser.format] : []))
+      : consoleFormat,
+  })
+
   // Add console transport if enabled
   if (enableConsoleLogging) {
-    transports.push(
-      new winston.transports.Console({
-        format: customFormat || consoleFormat,
-      })
-    )
+    transports.push(consoleTransport)
   }
 
   // Add file transports if enabled
@@ -311,68 +352,194 @@ export const createLogger = (
       return createSafePathWithSuffix(baseLogPath, suffix)
     }
 
+    /**
+     * Creates a size-rotated file transport using the configured file writer
+     * 
+     * @param suffix - The suffix to append to the log file name
+     * @param level - The minimum level written to the file
+     * @param format - The format of the file's entries
+     * @returns A Winston `File` transport, or a buffered file transport
+     */
+    const createFileTransport = (
+      suffix: LogFileNameSuffix,
+      level?: string,
+      format: Logform.Format = fileFormat
+    ): winston.transport =>
+      fileWriter === 'buffered'
+        ? new BufferedFileTransport({
+            ...fileWriterOptions,
+            filename: createLogPath(suffix),
+            maxsize: maxFileSize,
+            maxFiles,
+            zippedArchive: baseFileOptions.zippedArchive,
+            format,
+            level,
+          })
+        : new winston.transports.File({
+            ...baseFileOptions,
+            filename: createLogPath(suffix),
+            level,
+            format,
+          })
+
+    /**
+     * Creates a daily-rotated file transport using the configured file writer
+     * 
+     * @param suffix - The suffix to append to the log file name, containing the `%DATE%` placeholder
+     * @param format - The format of the file's entries
+     * @returns A `DailyRotateFile` transport, or a buffered file transport
+     */
+    const createDailyTransport = (
+      suffix: LogFileNameSuffix,
+      format: Logform.Format = fileFormat
+    ): winston.transport =>
+      fileWriter === 'buffered'
+        ? new BufferedFileTransport({
+            ...fileWriterOptions,
+            filename: createLogPath(suffix),
+            maxsize: maxFileSize,
+            maxFiles,
+            zippedArchive: baseFileOptions.zippedArchive,
+            format,
+          })
+        : new DailyRotateFile({
+            ...baseFileOptions,
+            filename: createLogPath(suffix),
+            datePattern: 'YYYY-MM-DD',
+            format,
+          })
+
     // Add daily rotation transport or standard file transport
-    if (useDailyRotation) {
-      transports.push(
-        new DailyRotateFile({
-          ...baseFileOptions,
-          filename: createLogPath('-%DATE%.log'),
-          datePattern: 'YYYY-MM-DD',
-        })
-      )
-    } else {
+    transports.push(useDailyRotation ? createDailyTransport('-%DATE%.log') : createFileTransport('-All.log'))
+
+    // Add separate error log transport if enabled
+    // Custom level sets without an `error` level route their most severe level here
+    if (separateErrorLog) {
       transports.push(
-        new winston.transports.File({
-          ...baseFileOptions,
-          filename: createLogPath('-All.log'),
-        })
+        createFileTransport('-error.log', resolveLevel(levels, ['error']) ?? extremeLevel(levels, 'most'))
       )
     }
 
-    // Add separate error log transport if enabled
-    if (separateErrorLog) {
+    // Add separate warning log transport if enabled and a warning level is defined
+    const warnLevel = resolveLevel(levels, ['warn', 'warning'])
+    if (separateWarnLog && warnLevel) {
+      transports.push(createFileTransport('-warn.log', warnLevel))
+    }
+
+    // Add a transport per route, rotated like the main log file
+    // Each writes exactly the levels, modules and entries its route selects
+    const routedFiles = new Set<string>()
+    for (const route of routes ?? []) {
+      if (routedFiles.has(route.file)) {
+        throw new Error(`Duplicate route file: ${route.file}`)
+      }
+      routedFiles.add(route.file)
+      const routedFormat = winston.format.combine(routeFormat(levels, route), fileFormat)
+      const { name, ext } = path.parse(route.file)
       transports.push(
-        new winston.transports.File({
-          ...baseFileOptions,
-          filename: createLogPath('-error.log'),
-          level: 'error',
-        })
+        useDailyRotation
+          ? createDailyTransport(`${name}-%DATE%${ext}` as RouteFileSuffix, routedFormat)
+          : createFileTransport(route.file, undefined, routedFormat)
       )
     }
 
-    // Add separate warning log transport if enabled
-    if (separateWarnLog) {
+    // Add access log transport if enabled, rotated like the main log file
+    // It only writes entries of the request logging middleware
+    if (accessLog) {
+      const accessFormat = accessLogFormat(accessLog === true ? undefined : accessLog.format, timezone)
       transports.push(
-        new winston.transports.File({
-          ...baseFileOptions,
-          filename: createLogPath('-warn.log'),
-          level: 'warn',
-        })
+        useDailyRotation
+          ? createDailyTransport('-access-%DATE%.log', accessFormat)
+          : createFileTransport('-access.log', undefined, accessFormat)
       )
     }
   }
 
+  // Add syslog transport if configured
+  // Entries are rendered like console lines; level, time and host go into the RFC 5424 header
+  if (syslog) {
+    transports.push(
+      new SyslogTransport({
+        ...syslog,
+        appName: syslog.appName ?? logName,
+        severities: syslogSeverities(levels, syslog.severities),
+        format: winston.format.printf((info) => `${info.message}${formatMetadata(getMetadata(info))}`),
+      })
+    )
+  }
+
+  // Add HTTP shipping transport if configured
+  // Entries are shipped like JSON file lines, the spool defaults to `spool` in the log directory
+  if (shipping) {
+    const { spool = true, spoolDirectory, ...shippingOptions } = shipping
+    transports.push(
+      new HttpBatchTransport({
+        ...shippingOptions,
+        spoolDirectory: spool
+          ? spoolDirectory
+            ? createSafePath(spoolDirectory)
+            : joinSafePaths(logDir, 'spool')
+          : undefined,
+        format: winston.format.combine(structuredDateFormat, structuredFormat(logName)),
+      })
+    )
+  }
+
   // Add any custom transports
   if (customTransports) {
     transports.push(...customTransports)
   }
 
+  /**
+   * Mutable state, read by the module level, sampling and redaction formats on every entry
+   * Environment defaults may name a level missing from custom levels, fall back to `info` or the most verbose level
+   */
+  const runtime: LoggerRuntime = {
+    levels,
+    level: level && level in levels
+      ? level
+      : resolveLevel(levels, ['info']) ?? extremeLevel(levels, 'least'),
+    moduleLevels: new Map(Object.entries(moduleLevels ?? {})),
+    redact,
+    redactor: redact ? createRedactor(redact) : undefined,
+    sampler: sampling
+      ? createSampler(sampling, levels, (summary) => logSummary(logger, summary))
+      : undefined,
+    consoleTransport,
+  }
+
   // Create and return the configured Winston logger
-  return winston.createLogger({
-    levels: config.levels,
-    level: level || 'info',
+  const logger = winston.createLogger({
+    levels: toWinstonLevels(levels),
+    level: runtime.level,
     silent,
     handleExceptions,
     handleRejections,
     transports,
-    format: customFormat || winston.format.simple(),
+    format: winston.format.combine(
+      errorFieldFormat(),
+      logContextFormat(),
+      moduleLevelFormat(runtime),
+      runtimeSamplingFormat(runtime),
+      runtimeRedactFormat(runtime),
+      customFormat || winston.format.simple()
+    ),
   })
+  registerRuntime(logger, runtime)
+
+  // Print repeats still held back when the logger ends or is closed
+  if (repeatCollapser) {
+    logger.once('finish', repeatCollapser.flush)
+    logger.once('close', repeatCollapser.flush)
+  }
+
+  return logger as TypedLogger<LevelNames<L, S>>
 }
 
 /**
  * Creates a simple logger with environment-specific defaults
  * 
- * @param env - The environment to use for configuration defaults
+ * @param env - The environment to use for configuration defaults, built in or registered with `defineEnvironment`
  * @returns A configured Winston logger instance
  * 
  * @remarks
@@ -391,7 +558,43 @@ export const createLogger = (
 export const createSimpleLogger = (
   env: Environment = 'development'
 ): winston.Logger => {
-  return createLogger(defaultOptions[env])
+  return createLogger({ environment: env })
+}
+
+/**
+ * Creates a child logger with context bound to every entry
+ * 
+ * @typeParam L - Names of the parent's log levels
+ * @param parent - The logger to derive from (may itself be a child logger)
+ * @param bindings - Fields merged into every entry written by the child
+ * @returns A Winston logger sharing the parent's transports and formats
+ * 
+ * @remarks
+ * Bound fields are rendered by the text and JSON file formats as well as
+ * the console formats. Fields passed with an individual log call take
+ * precedence over bound fields, and a nested child's bindings take
+ * precedence over its parent's.
+ * 
+ * @example
+ * ```ts
+ * const logger = createLogger({ logName: 'api' });
+ * const requestLogger = createChildLogger(logger, { requestId: 'abc', tenant: 'acme' });
+ * requestLogger.info('Fetching user');
+ * // 10/19/2024, 09:15:02 AM INFO: Fetching user requestId=abc tenant=acme
+ * ```
+ */
+export const createChildLogger = <L extends string = LogLevel>(
+  parent: TypedLogger<L>,
+  bindings: LoggerBindings
+): TypedLogger<L> => {
+  const child = parent.child({ ...bindings })
+  // Winston's child loggers copy only the message and stack of errors logged as the entry itself,
+  // so errors are converted before they reach it. Its `write` is read-only, hence the extra layer
+  return Object.create(child, {
+    write: {
+      value: (info: unknown) => child.write(info instanceof Error ? toErrorEntry(info) : info),
+    },
+  }) as TypedLogger<L>
 }
 
 // Re-export types
@@ -0,0 +1,339 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import { MESSAGE } from 'triple-beam'
+import { getMetadata, toSerializable } from './formats'
+import { applyColor } from './levels'
+import type { LevelDefinitions, PrettyFormatOptions } from './types'
+
+/**
+ * Indentation of each nesting level
+ * @internal
+ */
+const INDENT = '  '
+
+/**
+ * Nesting depth below which objects are rendered as `[Object]`
+ * @internal
+ */
+const MAX_DEPTH = 6
+
+/**
+ * Colors of the parts of a rendered entry
+ * @internal
+ */
+const THEME_COLORS = {
+  timestamp: 'grey',
+  tag: 'bold',
+  key: 'cyan',
+  string: 'green',
+  number: 'yellow',
+  literal: 'magenta',
+  nullish: 'grey',
+  error: 'bold red',
+  stack: 'grey',
+} as const
+
+/**
+ * Colors a part of a rendered entry, or returns it unchanged when colors are off
+ * @internal
+ */
+type Paint = (part: keyof typeof THEME_COLORS, text: string) => string
+
+/**
+ * Shared state while rendering one entry
+ * @internal
+ */
+type RenderContext = {
+  paint: Paint
+  /** Objects on the current path, used to detect circular references */
+  ancestors: Set<object>
+}
+
+/**
+ * Renders an object's entries in the "doge meme" style
+ *
+ * @param value - The object to render
+ * @returns The rendered string, e.g. `< wow "user" such "john" >`
+ * @internal
+ */
+const dogeFormat = (value: Record<string, unknown>): string =>
+  `< wow ${Object.entries(value)
+    .map(
+      ([key, item]) =>
+        `${JSON.stringify(key)} such ${JSON.stringify(toSerializable(item))}`
+    )
+    .join(', ')} >`
+
+/**
+ * Winston format rendering JSON messages and metadata in the "doge meme" style (the `doge` theme)
+ *
+ * @remarks
+ * Transforms JSON log messages into a more readable "doge meme" format
+ * Example: `{"user": "john"}` becomes `< wow "user" such "john" >`
+ *
+ * If the message isn't valid JSON or doesn't start with '{', it remains unchanged.
+ * Metadata (including fields bound through child loggers) is appended in the same style.
+ */
+export const dogeConsoleFormat = winston.format((info) => {
+  if (typeof info.message === 'string' && info.message.startsWith('{')) {
+    try {
+      info.message = dogeFormat(JSON.parse(info.message))
+    } catch {
+      // Leave message unchanged if parsing fails
+    }
+  }
+  const meta = getMetadata(info)
+  if (Object.keys(meta).length > 0) {
+    info.message = `${info.message} ${dogeFormat(meta)}`
+  }
+  return info
+})()
+
+/**
+ * Checks whether a string has to be quoted to be told apart from other values
+ * @internal
+ */
+const needsQuotes = (value: string): boolean =>
+  value === '' ||
+  value !== value.trim() ||
+  /^(true|false|null|undefined|-?\d+(\.\d+)?)$/.test(value)
+
+/**
+ * Renders a value that fits on one line
+ *
+ * @returns The rendered value, or `undefined` for values rendered as a block
+ * @internal
+ */
+const renderScalar = (value: unknown, context: RenderContext, depth: number): string | undefined => {
+  const { paint, ancestors } = context
+  switch (typeof value) {
+    case 'string':
+      return paint('string', needsQuotes(value) ? JSON.stringify(value) : value)
+    case 'number':
+      return paint('number', String(value))
+    case 'bigint':
+      return paint('number', `${value}n`)
+    case 'boolean':
+      return paint('literal', String(value))
+    case 'undefined':
+      return paint('nullish', 'undefined')
+    case 'symbol':
+      return paint('literal', value.toString())
+    case 'function':
+      return paint('literal', `[Function${value.name ? ` ${value.name}` : ''}]`)
+  }
+  if (value === null) {
+    return paint('nullish', 'null')
+  }
+  if (value instanceof Date) {
+    return paint('literal', Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString())
+  }
+  if (value instanceof RegExp) {
+    return paint('literal', String(value))
+  }
+  if (ancestors.has(value as object)) {
+    return paint('literal', '[Circular]')
+  }
+  if (value instanceof Error) {
+    return undefined
+  }
+  if (depth >= MAX_DEPTH) {
+    return paint('literal', Array.isArray(value) ? '[Array]' : '[Object]')
+  }
+  if (entriesOf(value as object).length === 0) {
+    return Array.isArray(value) || value instanceof Set ? '[]' : '{}'
+  }
+  return undefined
+}
+
+/**
+ * Lists the entries of an object, map or set for rendering
+ * @internal
+ */
+const entriesOf = (value: object): [string, unknown][] => {
+  if (value instanceof Map) {
+    return [...value].map(([key, item]) => [String(key), item])
+  }
+  if (value instanceof Set) {
+    return [...value].map((item, index) => [String(index), item])
+  }
+  return Object.entries(value)
+}
+
+/**
+ * Extracts the `at ...` frames of a stack trace as indented lines
+ * @internal
+ */
+const stackFrames = (stack: string, indent: string, paint: Paint): string[] =>
+  stack
+    .split('\n')
+    .filter((line) => /^\s+at\s/.test(line))
+    .map((line) => `${indent}${paint('stack', line.trim())}`)
+
+/**
+ * Renders an error as its header, stack frames, own properties, cause and aggregated errors
+ *
+ * @returns The lines; the first holds `Name: message` without indentation
+ * @internal
+ */
+const renderError = (error: Error, indent: string, context: RenderContext, depth: number): string[] => {
+  const { paint } = context
+  const header = paint('error', `${error.name}: ${error.message}`)
+  const frames = stackFrames(error.stack ?? '', indent + INDENT, paint)
+
+  // `cause` and the `errors` of an AggregateError are usually not enumerable
+  const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown }
+  const fields = Object.entries(error).filter(([key]) => !['stack', 'cause', 'errors'].includes(key))
+  if (cause !== undefined) {
+    fields.push(['cause', cause])
+  }
+  if (Array.isArray(errors)) {
+    fields.push(['errors', errors])
+  }
+  return [
+    header,
+    ...frames,
+    ...fields.flatMap(([key, item]) => renderField(`${paint('key', key)}:`, item, indent, context, depth + 1)),
+  ]
+}
+
+/**
+ * Renders the entries of an object or array, one field per line
+ * @internal
+ */
+const renderBlock = (value: object, indent: string, context: RenderContext, depth: number): string[] =>
+  Array.isArray(value) || value instanceof Set
+    ? [...value].flatMap((item) => renderField('-', item, indent, context, depth + 1))
+    : entriesOf(value).flatMap(([key, item]) =>
+        renderField(`${context.paint('key', key)}:`, item, indent, context, depth + 1)
+      )
+
+/**
+ * Renders a labelled value (`key:` or a `-` list marker) YAML style
+ *
+ * @param label - The label, rendered before the value
+ * @param value - The value
+ * @param indent - Indentation of the label
+ * @returns The lines of the field
+ * @internal
+ */
+const renderField = (
+  label: string,
+  value: unknown,
+  indent: string,
+  context: RenderContext,
+  depth: number
+): string[] => {
+  if (typeof value === 'string' && value.includes('\n')) {
+    return [
+      `${indent}${label} |`,
+      ...value.split('\n').map((line) => `${indent}${INDENT}${context.paint('string', line)}`),
+    ]
+  }
+  const scalar = renderScalar(value, context, depth)
+  if (scalar !== undefined) {
+    return [`${indent}${label} ${scalar}`]
+  }
+
+  const object = value as object
+  context.ancestors.add(object)
+  try {
+    if (object instanceof Error) {
+      const [header, ...rest] = renderError(object, indent + INDENT, context, depth)
+      return [`${indent}${label} ${header}`, ...rest]
+    }
+    const block = renderBlock(object, indent + INDENT, context, depth)
+    // List items start on the marker line: `- key: value`
+    return label === '-'
+      ? [`${indent}- ${block[0].slice(indent.length + INDENT.length)}`, ...block.slice(1)]
+      : [`${indent}${label}`, ...block]
+  } finally {
+    context.ancestors.delete(object)
+  }
+}
+
+/**
+ * Parses messages that are JSON objects or arrays
+ * @internal
+ */
+const parseJsonMessage = (message: unknown): object | undefined => {
+  if (typeof message !== 'string' || !/^\s*[[{]/.test(message)) {
+    return undefined
+  }
+  try {
+    const parsed: unknown = JSON.parse(message)
+    return typeof parsed === 'object' && parsed !== null ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Width of the longest level name, used to align the message column
+ * @internal
+ */
+const levelWidth = (levels: LevelDefinitions): number =>
+  Math.max(...Object.keys(levels).map((level) => level.length))
+
+/**
+ * Creates the Winston format of the `default` pretty console theme
+ *
+ * @param options - Level definitions, logger name and whether to use colors
+ * @returns A Winston format rendering the complete console line
+ *
+ * @remarks
+ * Renders one header line with aligned timestamp and level columns, `[logName]` and
+ * `[module]` tags and the message, followed by the metadata indented YAML style.
+ * Errors are rendered with their stack frames, own properties, `cause` chain and,
+ * for `AggregateError`, the aggregated errors. JSON messages are rendered like metadata.
+ * Apply `winston.format.timestamp` before it to show timestamps.
+ *
+ * @example
+ * ```text
+ * 09:15:02.120 ERROR [api] [billing] Charge failed
+ *   orderId: 42
+ *   error: Error: Card declined
+ *       at charge (billing.ts:12:11)
+ *     code: E_DECLINED
+ *     cause: Error: Gateway timeout
+ * ```
+ */
+export const prettyFormat = (options: PrettyFormatOptions): Logform.Format => {
+  const { levels, logName, colorize = false } = options
+  const width = levelWidth(levels)
+  const paint: Paint = colorize ? (part, text) => applyColor(THEME_COLORS[part], text) : (_part, text) => text
+
+  return winston.format((info) => {
+    const context: RenderContext = { paint, ancestors: new Set() }
+    const { module, stack, ...meta } = getMetadata(info)
+    const body =
+      parseJsonMessage(info.message) ??
+      (typeof info.message === 'object' && info.message !== null ? (info.message as object) : undefined)
+    if (module !== undefined && typeof module !== 'string') {
+      meta.module = module
+    }
+
+    const level = info.level.toUpperCase().padEnd(width)
+    const header = [
+      typeof info.timestamp === 'string' ? paint('timestamp', info.timestamp) : undefined,
+      colorize ? applyColor(levels[info.level]?.color, level) : level,
+      logName ? paint('tag', `[${logName}]`) : undefined,
+      typeof module === 'string' ? paint('tag', `[${module}]`) : undefined,
+      body ? undefined : String(info.message),
+    ]
+      .filter((part) => part !== undefined)
+      .join(' ')
+      .trimEnd()
+
+    const frames = typeof stack === 'string' ? stackFrames(stack, `${INDENT}${INDENT}`, paint) : []
+    const lines = [
+      header,
+      ...frames,
+      ...(body ? renderBlock(body, INDENT, context, 0) : []),
+      ...renderBlock(meta, INDENT, context, 0),
+    ]
+
+    info[MESSAGE] = lines.join('\n')
+    return info
+  })()
+}
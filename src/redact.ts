@@ -0,0 +1,262 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import type { RedactOptions, RedactPatternName } from './types'
+
+/**
+ * Built-in patterns for common kinds of sensitive data
+ *
+ * @remarks
+ * - creditCard: 13 to 19 digit card numbers, optionally separated by spaces or dashes,
+ *   that pass the Luhn checksum
+ * - bearerToken: `Bearer <token>` authorization values
+ * - email: Email addresses
+ */
+export const REDACT_PATTERNS: Readonly<Record<RedactPatternName, RegExp>> = {
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  bearerToken: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+} as const
+
+/**
+ * Checks a candidate card number against the Luhn checksum
+ *
+ * @param candidate - Digits, optionally separated by spaces or dashes
+ * @returns True if the checksum is valid
+ * @internal
+ */
+const passesLuhn = (candidate: string): boolean => {
+  const digits = candidate.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Default replacement for redacted values
+ */
+export const DEFAULT_CENSOR = '[REDACTED]'
+
+/**
+ * Function that returns a redacted copy of a value
+ */
+export type Redactor = <T>(value: T) => T
+
+/**
+ * Checks whether a key path matches a path rule
+ *
+ * @param rule - Rule segments, where `*` matches one key and `**` matches any number of keys
+ * @param keys - The key path of the value being checked (lowercased)
+ * @returns True if the rule matches the full key path
+ * @internal
+ */
+const matchesPath = (rule: readonly string[], keys: readonly string[]): boolean => {
+  if (rule.length === 0) {
+    return keys.length === 0
+  }
+  const [head, ...rest] = rule
+  if (head === '**') {
+    return (
+      matchesPath(rest, keys) ||
+      (keys.length > 0 && matchesPath(rule, keys.slice(1)))
+    )
+  }
+  if (keys.length === 0) {
+    return false
+  }
+  return (head === '*' || head === keys[0]) && matchesPath(rest, keys.slice(1))
+}
+
+/**
+ * Replaces references back to an object being redacted
+ * @internal
+ */
+const CIRCULAR = '[Circular]'
+
+/**
+ * Creates a function that masks sensitive data in log values
+ *
+ * @param options - Redaction rules, or a list of key paths as a shorthand
+ * @returns A function returning a redacted copy of any value
+ *
+ * @remarks
+ * Key paths are matched case-insensitively against nested object keys:
+ * - `user.password` masks `password` inside `user`
+ * - `*.token` masks `token` one level below any key
+ * - `**.secret` masks `secret` at any depth
+ *
+ * Patterns are applied to every string, replacing only the matching part.
+ * Input objects are never mutated; objects and arrays are copied as they are traversed.
+ * Errors are copied too, with their message, stack, own properties, `cause` and aggregated
+ * errors redacted like object fields of the same names. A reference back to an object or
+ * error higher up is replaced with `'[Circular]'`, like `serializeError` does.
+ *
+ * @example
+ * ```ts
+ * const redact = createRedactor({ paths: ['user.password'], patterns: ['email'] })
+ * redact({ user: { name: 'a@b.io', password: 'hunter2' } })
+ * // { user: { name: '[REDACTED]', password: '[REDACTED]' } }
+ * ```
+ */
+export const createRedactor = (
+  options: RedactOptions | readonly string[]
+): Redactor => {
+  const { paths = [], patterns = [], censor = DEFAULT_CENSOR } = Array.isArray(
+    options
+  )
+    ? { paths: options as readonly string[] }
+    : (options as RedactOptions)
+
+  const rules = paths.map((rule) => rule.toLowerCase().split('.'))
+  const expressions = patterns.map((pattern) =>
+    typeof pattern === 'string' ? REDACT_PATTERNS[pattern] : pattern
+  )
+
+  const redactString = (value: string): string =>
+    expressions.reduce(
+      (result, expression) =>
+        result.replace(
+          expression.global ? expression : new RegExp(expression.source, `${expression.flags}g`),
+          (match) =>
+            expression === REDACT_PATTERNS.creditCard && !passesLuhn(match)
+              ? match
+              : censor
+        ),
+      value
+    )
+
+  /**
+   * Copies an error with its message, stack, own properties, `cause` and aggregated errors redacted
+   * The copy keeps the prototype, so it is still serialized and rendered as an error
+   */
+  const redactError = (error: Error, keys: string[], seen: WeakSet<object>): Error => {
+    const copy = Object.create(Object.getPrototypeOf(error)) as Error
+    const hidden = (value: unknown): PropertyDescriptor => ({ value, writable: true, configurable: true })
+    const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown }
+    Object.defineProperties(copy, {
+      message: hidden(redactNode(error.message, [...keys, 'message'], seen)),
+      stack: hidden(error.stack === undefined ? undefined : redactNode(error.stack, [...keys, 'stack'], seen)),
+    })
+    if (Object.prototype.hasOwnProperty.call(error, 'name')) {
+      Object.defineProperty(copy, 'name', hidden(error.name))
+    }
+    const fields = copy as unknown as Record<string, unknown>
+    for (const [key, item] of Object.entries(error)) {
+      fields[key] = redactNode(item, [...keys, key.toLowerCase()], seen)
+    }
+    if (cause !== undefined) {
+      Object.defineProperty(copy, 'cause', hidden(redactNode(cause, [...keys, 'cause'], seen)))
+    }
+    if (Array.isArray(errors)) {
+      Object.defineProperty(
+        copy,
+        'errors',
+        hidden(errors.map((item, index) => redactNode(item, [...keys, 'errors', String(index)], seen)))
+      )
+    }
+    return copy
+  }
+
+  const redactNode = (value: unknown, keys: string[], seen: WeakSet<object>): unknown => {
+    if (keys.length > 0 && rules.some((rule) => matchesPath(rule, keys))) {
+      return censor
+    }
+    if (typeof value === 'string') {
+      return redactString(value)
+    }
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return value
+    }
+    if (seen.has(value)) {
+      return CIRCULAR
+    }
+    seen.add(value)
+    try {
+      if (value instanceof Error) {
+        return redactError(value, keys, seen)
+      }
+      if (Array.isArray(value)) {
+        return value.map((item, index) => redactNode(item, [...keys, String(index)], seen))
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          redactNode(item, [...keys, key.toLowerCase()], seen),
+        ])
+      )
+    } finally {
+      seen.delete(value)
+    }
+  }
+
+  return <T>(value: T): T => redactNode(value, [], new WeakSet()) as T
+}
+
+/**
+ * Redacts a log message, including messages that are JSON encoded objects
+ *
+ * @param message - The message to redact
+ * @param redactor - The redactor to apply
+ * @returns The redacted message
+ * @internal
+ */
+const redactMessage = (message: unknown, redactor: Redactor): unknown => {
+  if (typeof message === 'string' && /^\s*[[{]/.test(message)) {
+    try {
+      return JSON.stringify(redactor(JSON.parse(message)))
+    } catch {
+      // Not JSON, fall through to plain string redaction
+    }
+  }
+  return redactor(message)
+}
+
+/**
+ * Masks sensitive data in a Winston info object in place
+ *
+ * @param info - The Winston info object
+ * @param redactor - The redactor to apply
+ * @returns The same info object
+ *
+ * @remarks
+ * Path rules apply to metadata fields and to the contents of JSON encoded messages.
+ * Patterns apply to every string in the entry, including the message.
+ * Nested values are replaced with redacted copies, so objects passed by callers are not mutated.
+ */
+export const redactInfo = (
+  info: Logform.TransformableInfo,
+  redactor: Redactor
+): Logform.TransformableInfo => {
+  for (const key of Object.keys(info)) {
+    if (key !== 'level' && key !== 'message') {
+      info[key] = redactor({ [key]: info[key] })[key]
+    }
+  }
+  info.message = redactMessage(info.message, redactor)
+  return info
+}
+
+/**
+ * Creates a Winston format that masks sensitive data before any transport sees the entry
+ *
+ * @param redactor - The redactor to apply to every entry
+ * @returns A Winston format applying the redactor with {@link redactInfo}
+ *
+ * @example
+ * ```ts
+ * winston.createLogger({
+ *   format: winston.format.combine(
+ *     redactFormat(createRedactor(['headers.authorization'])),
+ *     winston.format.json()
+ *   ),
+ * })
+ * ```
+ */
+export const redactFormat = (redactor: Redactor): Logform.Format =>
+  winston.format((info) => redactInfo(info, redactor))()
@@ -0,0 +1,227 @@
+import * as winston from 'winston'
+import DailyRotateFile from 'winston-daily-rotate-file'
+import { createLogger } from './log-facotry'
+import { findRuntime, listOpenLoggers } from './runtime'
+import type {
+  FlushableTransport,
+  LevelNames,
+  LevelScheme,
+  LoggerOptions,
+  ShutdownOptions,
+  TypedLogger,
+} from './types'
+
+/**
+ * Loggers created by {@link getLogger}, keyed by log name
+ * @internal
+ */
+const namedLoggers = new Map<string, winston.Logger>()
+
+/**
+ * Internal state of Winston's File transport needed to know when data reached the file
+ * @internal
+ */
+type FileTransportState = {
+  _dest?: NodeJS.WritableStream & { closed?: boolean }
+  _opening?: boolean
+}
+
+/**
+ * Checks whether a transport implements {@link FlushableTransport}
+ * @internal
+ */
+const isFlushable = (transport: winston.transport): transport is winston.transport & FlushableTransport =>
+  typeof (transport as Partial<FlushableTransport>).flushed === 'function'
+
+/**
+ * Waits until a transport has written everything it was given to disk or the network
+ *
+ * @param transport - The transport, after its logger has finished
+ * @returns A promise resolving once file data is flushed, immediately for other transports
+ * @internal
+ *
+ * @remarks
+ * Winston considers a File transport finished once entries are handed to its internal
+ * stream, and DailyRotateFile once its rotator stream accepted them. Both only write
+ * to disk after they are closed, which happens when the logger unpipes them. Transports
+ * that implement {@link FlushableTransport} say themselves when they are done.
+ */
+const waitForFlush = (transport: winston.transport): Promise<void> =>
+  new Promise((resolve) => {
+    if (transport instanceof winston.transports.File) {
+      const state = transport as unknown as FileTransportState
+      const onOpen = () => {
+        const dest = state._dest
+        if (!dest || dest.closed) {
+          resolve()
+        } else {
+          dest.once('close', resolve)
+        }
+      }
+      if (state._opening || !state._dest) {
+        transport.once('open', () => setImmediate(onOpen))
+      } else {
+        onOpen()
+      }
+    } else if (isFlushable(transport)) {
+      void transport.flushed().then(resolve)
+    } else if (transport instanceof DailyRotateFile) {
+      transport.once('finish', resolve)
+    } else {
+      resolve()
+    }
+  })
+
+/**
+ * Loggers already guarded by {@link guardWriteAfterEnd}
+ * @internal
+ */
+const guardedLoggers = new WeakSet<winston.Logger>()
+
+/**
+ * Ignores entries logged after a logger was closed instead of crashing the process
+ *
+ * @remarks
+ * Other errors are left to the logger's own `error` listeners, or written to stderr when
+ * there are none, since the guard's listener keeps Winston from throwing them.
+ * @internal
+ */
+const guardWriteAfterEnd = (logger: winston.Logger): void => {
+  if (guardedLoggers.has(logger)) {
+    return
+  }
+  guardedLoggers.add(logger)
+  logger.on('error', (error: Error & { code?: string }) => {
+    if (error.code !== 'ERR_STREAM_WRITE_AFTER_END' && logger.listenerCount('error') === 1) {
+      console.error(`Logger error: ${error.stack ?? error.message}`)
+    }
+  })
+}
+
+/**
+ * Ends a logger, closes its transports and waits for file transports to flush
+ *
+ * @remarks
+ * Messages suppressed by rate limiting are summarized before the logger ends.
+ *
+ * @param logger - The logger to close
+ * @internal
+ */
+const closeLogger = async (logger: winston.Logger): Promise<void> => {
+  const transports = [...logger.transports]
+  guardWriteAfterEnd(logger)
+  if (!logger.writableEnded) {
+    findRuntime(logger)?.runtime.sampler?.flush()
+    await new Promise<void>((resolve) => {
+      logger.once('finish', resolve)
+      logger.end()
+    })
+  }
+  const flushed = Promise.all(transports.map(waitForFlush))
+  logger.close()
+  await flushed
+}
+
+/**
+ * Closes loggers, giving up waiting for file flushes after a timeout
+ * @internal
+ */
+const closeLoggers = async (loggers: winston.Logger[], timeout: number): Promise<void> => {
+  let timer: NodeJS.Timeout | undefined
+  await Promise.race([
+    Promise.all(loggers.map(closeLogger)),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeout)
+      timer.unref()
+    }),
+  ])
+  clearTimeout(timer)
+}
+
+/**
+ * Gets the shared logger for a log name, creating it on first use
+ *
+ * @typeParam L - Names of custom log levels, inferred from `options.levels`
+ * @typeParam S - The level scheme, inferred from `options.levelScheme`
+ * @param name - The log name, used as `logName` when the logger is created
+ * @param options - Options for creating the logger; ignored if it already exists
+ * @returns The logger registered for the name
+ *
+ * @remarks
+ * Every `createLogger` call opens its own file handles, so modules that each create
+ * a logger for the same `logName` write to the same files through several streams.
+ * `getLogger` returns the same instance for every call with the same name instead.
+ *
+ * @example
+ * ```ts
+ * // db.ts
+ * const logger = getLogger('api', { logDirectory: '/var/log' })
+ * // http.ts: same logger, same file handles
+ * const logger = getLogger('api')
+ * ```
+ */
+export const getLogger = <L extends string = never, S extends LevelScheme = 'npm'>(
+  name: string,
+  options: Partial<Omit<LoggerOptions<L, S>, 'logName'>> = {}
+): TypedLogger<LevelNames<L, S>> => {
+  const existing = namedLoggers.get(name)
+  if (existing) {
+    return existing as TypedLogger<LevelNames<L, S>>
+  }
+  const logger = createLogger<L, S>({ ...options, logName: name } as Partial<LoggerOptions<L, S>>)
+  namedLoggers.set(name, logger)
+  logger.once('close', () => {
+    if (namedLoggers.get(name) === logger) {
+      namedLoggers.delete(name)
+    }
+  })
+  return logger
+}
+
+/**
+ * Lists the names of the loggers created by {@link getLogger}
+ *
+ * @returns The log names, in creation order
+ */
+export const listLoggers = (): string[] => [...namedLoggers.keys()]
+
+/**
+ * Closes every logger created by {@link getLogger} and removes it from the registry
+ *
+ * @param options - How long to wait for buffered writes
+ * @returns A promise resolving once their file transports are flushed or the timeout expires
+ */
+export const closeAll = async (options: ShutdownOptions = {}): Promise<void> => {
+  const { timeout = 5000 } = options
+  const loggers = [...namedLoggers.values()]
+  namedLoggers.clear()
+  await closeLoggers(loggers, timeout)
+}
+
+/**
+ * Flushes and closes every logger created by `createLogger` or {@link getLogger}
+ *
+ * @param options - How long to wait for buffered writes
+ * @returns A promise resolving once all file transports have written their entries to disk,
+ *   or once the timeout expires
+ *
+ * @remarks
+ * Call it before exiting so the last entries are not lost: Winston's File and
+ * DailyRotateFile transports write asynchronously, and `process.exit` discards
+ * anything still buffered. Entries logged after shutdown are dropped.
+ *
+ * @example
+ * ```ts
+ * process.on('SIGTERM', async () => {
+ *   logger.info('Shutting down')
+ *   await shutdown()
+ *   process.exit(0)
+ * })
+ * ```
+ */
+export const shutdown = async (options: ShutdownOptions = {}): Promise<void> => {
+  const { timeout = 5000 } = options
+  const loggers = listOpenLoggers()
+  namedLoggers.clear()
+  await closeLoggers(loggers, timeout)
+}
@@ -0,0 +1,95 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import type { LevelDefinitions, LevelRange, LogRoute, LogRouteEntry } from './types'
+
+/**
+ * Pattern of route file suffixes, keeping routed files next to the logger's other files
+ * @internal
+ */
+const ROUTE_FILE_PATTERN = /^-[\w.-]+\.log$/
+
+/**
+ * Suffixes of the files written by the logger itself
+ * @internal
+ */
+const RESERVED_FILES: readonly string[] = ['-All.log', '-error.log', '-warn.log', '-access.log']
+
+/**
+ * Resolves the levels a route writes
+ *
+ * @param levels - The logger's level definitions
+ * @param route - The route
+ * @returns The names of the selected levels
+ * @throws If the route names a level missing from `levels`
+ * @internal
+ */
+export const routeLevels = (levels: LevelDefinitions, route: LogRoute<string>): Set<string> => {
+  const severityOf = (level: string): number => {
+    if (!(level in levels)) {
+      throw new Error(`Unknown log level in route ${route.file}: ${level}`)
+    }
+    return levels[level].severity
+  }
+  const selection = route.levels ?? {}
+  if (Array.isArray(selection)) {
+    selection.forEach(severityOf)
+    return new Set(selection as readonly string[])
+  }
+
+  // Lower severities are more important, so `atLeast` bounds the severity from above
+  const { atLeast, atMost } = selection as LevelRange<string>
+  const upper = atLeast === undefined ? Infinity : severityOf(atLeast)
+  const lower = atMost === undefined ? -Infinity : severityOf(atMost)
+  return new Set(
+    Object.keys(levels).filter((level) => levels[level].severity <= upper && levels[level].severity >= lower)
+  )
+}
+
+/**
+ * Creates a Winston format passing the entries selected by a route
+ *
+ * @param levels - The logger's level definitions
+ * @param route - The route
+ * @returns A Winston format dropping every entry the route does not select
+ * @throws If the file suffix is not of the form `-<name>.log`, names a file of the logger itself, or the route names an unknown level
+ * @internal
+ *
+ * @remarks
+ * Unlike a transport's `level`, which also passes every more severe level, the route's
+ * levels are matched exactly. `module` is matched against the `module` field of entries and
+ * `filter` receives the entry after redaction. Entries for which `filter` throws are not
+ * written to the route; the first such error is reported with `console.error`.
+ */
+export const routeFormat = (levels: LevelDefinitions, route: LogRoute<string>): Logform.Format => {
+  if (!ROUTE_FILE_PATTERN.test(route.file) || RESERVED_FILES.includes(route.file)) {
+    throw new Error(`Invalid route file: ${route.file} (use a suffix such as -audit.log)`)
+  }
+  const selected = routeLevels(levels, route)
+  const modules = route.module === undefined ? undefined : ([] as string[]).concat(route.module)
+  const { filter } = route
+  let filterFailed = false
+
+  /** Runs the route's predicate, treating an entry it throws on as not selected */
+  const matches = (info: LogRouteEntry): boolean => {
+    try {
+      return !filter || filter(info)
+    } catch (error) {
+      if (!filterFailed) {
+        filterFailed = true
+        const reason = error instanceof Error ? (error.stack ?? error.message) : String(error)
+        console.error(`Route ${route.file} filter failed: ${reason}`)
+      }
+      return false
+    }
+  }
+
+  return winston.format((info) => {
+    if (!selected.has(info.level)) {
+      return false
+    }
+    if (modules && !(typeof info.module === 'string' && modules.includes(info.module))) {
+      return false
+    }
+    return matches(info as LogRouteEntry) ? info : false
+  })()
+}
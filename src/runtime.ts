@@ -0,0 +1,314 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import { createRedactor, redactInfo } from './redact'
+import type { Redactor } from './redact'
+import type { Sampler } from './sampling'
+import type { LevelDefinitions, NoInference, RedactOptions, ReloadableLoggerOptions, TypedLogger } from './types'
+
+/**
+ * Mutable state of a logger created by `createLogger`
+ *
+ * @remarks
+ * Holds everything that can change after construction. Formats read from
+ * it on every entry, so updates apply without recreating transports.
+ * @internal
+ */
+export type LoggerRuntime = {
+  /** Level definitions of the logger */
+  levels: LevelDefinitions
+  /** Minimum level for entries without a module override */
+  level: string
+  /** Minimum level per module, matched against the `module` field of entries */
+  moduleLevels: Map<string, string>
+  /** Redaction rules the redactor was created from */
+  redact?: RedactOptions | readonly string[]
+  /** Redactor applied to every entry, if redaction is configured */
+  redactor?: Redactor
+  /** Sampler deciding which entries are kept, if sampling is configured */
+  sampler?: Sampler
+  /** Console transport, attached to the logger only while console logging is enabled */
+  consoleTransport: winston.transport
+}
+
+/**
+ * Runtime state of each logger, keyed by the root logger
+ * @internal
+ */
+const runtimes = new WeakMap<winston.Logger, LoggerRuntime>()
+
+/**
+ * Loggers created by `createLogger` that have not been closed yet
+ * Held weakly, so loggers dropped without being closed can still be garbage collected
+ * @internal
+ */
+const openLoggerRefs = new Set<WeakRef<winston.Logger>>()
+
+/**
+ * Forgets loggers that were garbage collected without being closed
+ * @internal
+ */
+const collectedLoggers = new FinalizationRegistry<WeakRef<winston.Logger>>((ref) => {
+  openLoggerRefs.delete(ref)
+})
+
+/**
+ * Lists the loggers created by `createLogger` that have not been closed or collected yet
+ *
+ * @returns The open root loggers, in creation order
+ * @internal
+ */
+export const listOpenLoggers = (): winston.Logger[] =>
+  [...openLoggerRefs]
+    .map((ref) => ref.deref())
+    .filter((logger): logger is winston.Logger => logger !== undefined)
+
+/**
+ * Associates runtime state with a logger and tracks it until it is closed
+ *
+ * @param logger - The root logger
+ * @param runtime - Its runtime state
+ * @internal
+ */
+export const registerRuntime = (
+  logger: winston.Logger,
+  runtime: LoggerRuntime
+): void => {
+  runtimes.set(logger, runtime)
+  syncLoggerLevel(logger, runtime)
+  const ref = new WeakRef(logger)
+  openLoggerRefs.add(ref)
+  collectedLoggers.register(logger, ref, ref)
+  logger.once('close', () => {
+    openLoggerRefs.delete(ref)
+    collectedLoggers.unregister(ref)
+    runtime.sampler?.stop()
+  })
+}
+
+/**
+ * Finds the root logger and runtime state of a logger or child logger
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @returns The root logger and its state, or `undefined` for other loggers
+ * @internal
+ *
+ * @remarks
+ * Winston child loggers inherit from their parent through the prototype chain.
+ */
+export const findRuntime = (
+  logger: winston.Logger
+): { root: winston.Logger; runtime: LoggerRuntime } | undefined => {
+  for (
+    let current: winston.Logger | null = logger;
+    current;
+    current = Object.getPrototypeOf(current)
+  ) {
+    const runtime = runtimes.get(current)
+    if (runtime) {
+      return { root: current, runtime }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Sets Winston's own level to the most verbose level in use
+ *
+ * @remarks
+ * Winston drops entries below its level before any format runs, so it has to let
+ * through everything a module override might want; {@link moduleLevelFormat}
+ * then applies the actual thresholds.
+ * @internal
+ */
+const syncLoggerLevel = (logger: winston.Logger, runtime: LoggerRuntime): void => {
+  const { levels } = runtime
+  logger.level = [runtime.level, ...runtime.moduleLevels.values()].reduce(
+    (mostVerbose, level) =>
+      levels[level].severity > levels[mostVerbose].severity ? level : mostVerbose
+  )
+}
+
+/**
+ * Throws if a level is not defined
+ * @internal
+ */
+const assertLevel = (levels: Readonly<Record<string, unknown>>, level: string): void => {
+  if (!(level in levels)) {
+    throw new Error(`Unknown log level: ${level}`)
+  }
+}
+
+/**
+ * Creates a Winston format that applies per-module level thresholds
+ *
+ * @param runtime - The runtime state holding the thresholds
+ * @returns A Winston format dropping entries below their module's level
+ * @internal
+ */
+export const moduleLevelFormat = (runtime: LoggerRuntime): Logform.Format =>
+  winston.format((info) => {
+    const threshold =
+      (typeof info.module === 'string' && runtime.moduleLevels.get(info.module)) ||
+      runtime.level
+    const severity = runtime.levels[info.level]?.severity
+    return severity === undefined || severity <= runtime.levels[threshold].severity
+      ? info
+      : false
+  })()
+
+/**
+ * Creates a Winston format that applies the redactor currently configured in the runtime state
+ *
+ * @param runtime - The runtime state holding the redactor
+ * @returns A Winston format masking sensitive data, or passing entries through when no redactor is set
+ * @internal
+ */
+export const runtimeRedactFormat = (runtime: LoggerRuntime): Logform.Format =>
+  winston.format((info) => (runtime.redactor ? redactInfo(info, runtime.redactor) : info))()
+
+/**
+ * Creates a Winston format that drops entries rejected by the sampler in the runtime state
+ *
+ * @param runtime - The runtime state holding the sampler
+ * @returns A Winston format applying sampling and rate limits, or passing entries through when sampling is not configured
+ * @internal
+ */
+export const runtimeSamplingFormat = (runtime: LoggerRuntime): Logform.Format =>
+  winston.format((info) => (!runtime.sampler || runtime.sampler.sample(info) ? info : false))()
+
+/**
+ * Changes the minimum level of a running logger
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @param level - The new minimum level
+ * @throws If the level is not defined for the logger
+ *
+ * @remarks
+ * The change applies to the root logger and therefore to all of its child loggers.
+ * Module overrides set through `moduleLevels` or {@link setModuleLevel} keep precedence.
+ *
+ * @example
+ * ```ts
+ * process.on('SIGUSR2', () => setLevel(logger, 'debug'))
+ * ```
+ */
+export const setLevel = <L extends string>(
+  logger: TypedLogger<L>,
+  level: NoInference<L>
+): void => {
+  const found = findRuntime(logger)
+  if (!found) {
+    assertLevel(logger.levels, level)
+    logger.level = level
+    return
+  }
+  assertLevel(found.runtime.levels, level)
+  found.runtime.level = level
+  syncLoggerLevel(found.root, found.runtime)
+}
+
+/**
+ * Overrides the minimum level for one module of a running logger
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @param module - The module name, matched against the `module` field of entries
+ * @param level - The level for the module, or `undefined` to remove the override
+ * @throws If the logger was not created by `createLogger` or the level is not defined
+ *
+ * @example
+ * ```ts
+ * const dbLogger = createChildLogger(logger, { module: 'db' })
+ * setModuleLevel(logger, 'db', 'debug') // dbLogger.debug() is now recorded
+ * ```
+ */
+export const setModuleLevel = <L extends string>(
+  logger: TypedLogger<L>,
+  module: string,
+  level: NoInference<L> | undefined
+): void => {
+  const found = findRuntime(logger)
+  if (!found) {
+    throw new Error('Module levels require a logger created by createLogger')
+  }
+  const { root, runtime } = found
+  if (level === undefined) {
+    runtime.moduleLevels.delete(module)
+  } else {
+    assertLevel(runtime.levels, level)
+    runtime.moduleLevels.set(module, level)
+  }
+  syncLoggerLevel(root, runtime)
+}
+
+/**
+ * Gets the effective minimum level of a logger or one of its modules
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @param module - Optional module name
+ * @returns The module's override if one is set, otherwise the logger's level
+ */
+export const getLevel = <L extends string>(
+  logger: TypedLogger<L>,
+  module?: string
+): L => {
+  const found = findRuntime(logger)
+  if (!found) {
+    return logger.level as L
+  }
+  const { runtime } = found
+  return ((module !== undefined && runtime.moduleLevels.get(module)) || runtime.level) as L
+}
+
+/**
+ * Applies new settings to a running logger
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @param options - The settings to change; omitted settings are left as they are
+ * @throws If the logger was not created by `createLogger` or a level is not defined
+ *
+ * @remarks
+ * All levels are validated before anything changes, so a failed call leaves the logger untouched.
+ * `moduleLevels` replaces the previous overrides rather than merging with them.
+ *
+ * @example
+ * ```ts
+ * reconfigureLogger(logger, { level: 'debug', enableConsoleLogging: true })
+ * ```
+ */
+export const reconfigureLogger = <L extends string>(
+  logger: TypedLogger<L>,
+  options: ReloadableLoggerOptions<NoInference<L>>
+): void => {
+  const found = findRuntime(logger)
+  if (!found) {
+    throw new Error('Reconfiguration requires a logger created by createLogger')
+  }
+  const { root, runtime } = found
+  const { level, enableConsoleLogging, redact, moduleLevels } = options
+
+  for (const configuredLevel of [level, ...Object.values(moduleLevels ?? {})]) {
+    if (configuredLevel !== undefined) {
+      assertLevel(runtime.levels, configuredLevel)
+    }
+  }
+  const redactor = redact ? createRedactor(redact) : undefined
+
+  if (level !== undefined) {
+    runtime.level = level
+  }
+  if (moduleLevels !== undefined) {
+    runtime.moduleLevels = new Map(Object.entries(moduleLevels))
+  }
+  if (redact !== undefined) {
+    runtime.redact = redact || undefined
+    runtime.redactor = redactor
+  }
+  syncLoggerLevel(root, runtime)
+
+  const consoleAttached = root.transports.includes(runtime.consoleTransport)
+  if (enableConsoleLogging === true && !consoleAttached) {
+    root.add(runtime.consoleTransport)
+  } else if (enableConsoleLogging === false && consoleAttached) {
+    root.remove(runtime.consoleTransport)
+  }
+}
@@ -0,0 +1,192 @@
+import * as winston from 'winston'
+import type { Logform } from 'winston'
+import type { LevelDefinitions, SamplingOptions } from './types'
+
+/**
+ * Marks summary entries so they are not sampled themselves
+ * @internal
+ */
+const SUMMARY = Symbol('loggerama.samplingSummary')
+
+/**
+ * Messages seen for one key in the current interval
+ * @internal
+ */
+type MessageCount = {
+  level: string
+  sampleKey: string
+  template: string
+  module?: string
+  count: number
+  suppressed: number
+}
+
+/**
+ * Entry reporting suppressed messages, logged at the level of the messages
+ * @internal
+ */
+export type SuppressedSummary = {
+  level: string
+  message: string
+  sampleKey: string
+  suppressed: number
+  module?: string
+}
+
+/**
+ * Sampling state of a logger
+ * @internal
+ */
+export type Sampler = {
+  /** Decides whether an entry is kept, counting it for rate limiting */
+  sample: (info: Logform.TransformableInfo) => boolean
+  /** Reports suppressed messages of the current interval and starts a new one */
+  flush: () => void
+  /** Stops the summary timer without reporting */
+  stop: () => void
+}
+
+/**
+ * Throws if sampling options are invalid for a level table
+ * @internal
+ */
+const assertSamplingOptions = (options: SamplingOptions<string>, levels: LevelDefinitions): void => {
+  const assertLevel = (level: string) => {
+    if (!(level in levels)) {
+      throw new Error(`Unknown log level in sampling options: ${level}`)
+    }
+  }
+  for (const [level, rate] of Object.entries(options.rates ?? {})) {
+    assertLevel(level)
+    if (!Number.isInteger(rate) || (rate as number) < 1) {
+      throw new Error(`Sampling rate for ${level} must be a positive integer (got ${rate})`)
+    }
+  }
+  const { rateLimit } = options
+  if (rateLimit) {
+    if (!Number.isInteger(rateLimit.max) || rateLimit.max < 1) {
+      throw new Error(`Sampling rateLimit.max must be a positive integer (got ${rateLimit.max})`)
+    }
+    if (rateLimit.interval !== undefined && !(rateLimit.interval > 0)) {
+      throw new Error(`Sampling rateLimit.interval must be positive (got ${rateLimit.interval})`)
+    }
+    rateLimit.levels?.forEach(assertLevel)
+  }
+}
+
+/**
+ * Creates the sampling state of a logger
+ *
+ * @param options - Sampling rates and rate limit
+ * @param levels - The logger's level definitions
+ * @param report - Called with a summary for every message key that had entries suppressed
+ * @returns The sampler
+ * @throws If a level is unknown or a rate or limit is not a positive integer
+ * @internal
+ *
+ * @remarks
+ * Rate limiting uses fixed intervals starting with the first entry after the previous
+ * interval ended. Summaries are reported when the interval ends, by a timer that only
+ * runs while something was suppressed, so idle loggers do not keep timers around.
+ */
+export const createSampler = (
+  options: SamplingOptions<string>,
+  levels: LevelDefinitions,
+  report: (summary: SuppressedSummary) => void
+): Sampler => {
+  assertSamplingOptions(options, levels)
+  const { rates = {}, rateLimit } = options
+  const interval = rateLimit?.interval ?? 60_000
+  const limitedLevels = rateLimit?.levels && new Set<string>(rateLimit.levels)
+
+  const seen = new Map<string, number>()
+  const counts = new Map<string, MessageCount>()
+  let intervalEnd = 0
+  let timer: NodeJS.Timeout | undefined
+
+  const stop = () => {
+    clearTimeout(timer)
+    timer = undefined
+  }
+
+  const flush = () => {
+    stop()
+    const suppressed = [...counts.values()].filter((entry) => entry.suppressed > 0)
+    counts.clear()
+    intervalEnd = 0
+    for (const { level, sampleKey, template, module, suppressed: count } of suppressed) {
+      report({
+        level,
+        message: `Suppressed ${count} similar message${count === 1 ? '' : 's'}: ${template}`,
+        sampleKey,
+        suppressed: count,
+        ...(module !== undefined && { module }),
+      })
+    }
+  }
+
+  const isRateLimited = (info: Logform.TransformableInfo): boolean => {
+    if (!rateLimit || limitedLevels?.has(info.level) === false) {
+      return false
+    }
+    const now = Date.now()
+    if (now >= intervalEnd) {
+      flush()
+      intervalEnd = now + interval
+    }
+
+    const template = String(info.message)
+    const sampleKey = typeof info.sampleKey === 'string' ? info.sampleKey : template
+    const key = `${info.level}:${sampleKey}`
+    const entry = counts.get(key) ?? {
+      level: info.level,
+      sampleKey,
+      template,
+      module: typeof info.module === 'string' ? info.module : undefined,
+      count: 0,
+      suppressed: 0,
+    }
+    counts.set(key, entry)
+    entry.count++
+    if (entry.count <= rateLimit.max) {
+      return false
+    }
+
+    entry.suppressed++
+    if (!timer) {
+      timer = setTimeout(flush, intervalEnd - now)
+      timer.unref()
+    }
+    return true
+  }
+
+  const sample = (info: Logform.TransformableInfo): boolean => {
+    if ((info as Record<symbol, unknown>)[SUMMARY]) {
+      return true
+    }
+    const rate = (rates as Record<string, number | undefined>)[info.level]
+    if (rate !== undefined && rate > 1) {
+      const index = seen.get(info.level) ?? 0
+      seen.set(info.level, index + 1)
+      if (index % rate !== 0) {
+        return false
+      }
+    }
+    return !isRateLimited(info)
+  }
+
+  return { sample, flush, stop }
+}
+
+/**
+ * Logs a suppression summary through a logger, bypassing its sampler
+ *
+ * @param logger - The root logger
+ * @param summary - The summary to log
+ * @internal
+ */
+export const logSummary = (logger: winston.Logger, summary: SuppressedSummary): void => {
+  if (!logger.writableEnded) {
+    logger.log({ ...summary, [SUMMARY]: true })
+  }
+}
@@ -0,0 +1,357 @@
+import * as dgram from 'dgram'
+import * as net from 'net'
+import * as os from 'os'
+import { MESSAGE } from 'triple-beam'
+import TransportStream from 'winston-transport'
+import type {
+  FlushableTransport,
+  LevelDefinitions,
+  SyslogFacility,
+  SyslogSeverity,
+  SyslogStats,
+  SyslogTransportOptions,
+} from './types'
+
+/**
+ * Messages kept while a stream connection is being established
+ * @internal
+ */
+const MAX_QUEUE = 1000
+
+/**
+ * Facility codes of RFC 5424
+ * @internal
+ */
+const FACILITIES: Readonly<Record<SyslogFacility, number>> = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+}
+
+/**
+ * Names of the syslog facilities
+ * @internal
+ */
+export const SYSLOG_FACILITIES = Object.keys(FACILITIES) as readonly SyslogFacility[]
+
+/**
+ * Syslog severities of common level names across the npm, syslog and popular custom schemes
+ * @internal
+ */
+const LEVEL_SEVERITIES: Readonly<Record<string, SyslogSeverity>> = {
+  emerg: 0,
+  emergency: 0,
+  alert: 1,
+  crit: 2,
+  critical: 2,
+  fatal: 2,
+  error: 3,
+  err: 3,
+  warn: 4,
+  warning: 4,
+  notice: 5,
+  info: 6,
+  http: 6,
+  data: 6,
+  debug: 7,
+  verbose: 7,
+  trace: 7,
+  silly: 7,
+}
+
+/**
+ * Maps every level of a logger to a syslog severity
+ *
+ * @param levels - The logger's level definitions
+ * @param overrides - Severities of levels without a standard mapping, or replacing it
+ * @returns The severity of each level
+ * @throws If a level has neither a standard mapping nor an override
+ */
+export const syslogSeverities = (
+  levels: LevelDefinitions,
+  overrides: Readonly<Record<string, SyslogSeverity | undefined>> = {}
+): Record<string, SyslogSeverity> =>
+  Object.fromEntries(
+    Object.keys(levels).map((level) => {
+      const severity = overrides[level] ?? LEVEL_SEVERITIES[level]
+      if (severity === undefined) {
+        throw new Error(`No syslog severity for log level: ${level} (set it in syslog.severities)`)
+      }
+      return [level, severity]
+    })
+  )
+
+/**
+ * Restricts a header field to printable US-ASCII without spaces, as RFC 5424 requires
+ * @internal
+ */
+const headerField = (value: string | undefined, maxLength: number): string =>
+  value?.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength) || '-'
+
+/**
+ * Winston transport sending entries to a syslog server as RFC 5424 messages
+ *
+ * @remarks
+ * Each entry becomes `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID - MSG`, where PRI combines the
+ * facility with the entry's severity and MSGID is the entry's `module` field. UDP sends one datagram
+ * per message. TCP and Unix stream sockets frame messages by octet counting (RFC 6587) or with a
+ * trailing newline, connect on the first entry and reconnect on the next entry after the connection
+ * is lost; up to 1000 messages are queued while connecting. Node cannot write to datagram Unix
+ * sockets, so `unix` needs a stream socket (such as rsyslog's `imuxsock` with a stream listener).
+ *
+ * Socket errors are emitted as `warn` events and counted in `stats.dropped`.
+ *
+ * @example
+ * ```ts
+ * const transport = new SyslogTransport({
+ *   protocol: 'tcp',
+ *   host: 'logs.internal',
+ *   port: 6514,
+ *   facility: 'local0',
+ *   appName: 'api',
+ *   severities: syslogSeverities(defaultLevels),
+ * })
+ * const logger = winston.createLogger({ levels: toWinstonLevels(defaultLevels), transports: [transport] })
+ * ```
+ */
+export class SyslogTransport extends TransportStream implements FlushableTransport {
+  private readonly protocol: 'udp' | 'tcp' | 'unix'
+  private readonly host: string
+  private readonly port: number
+  private readonly path: string
+  private readonly facility: number
+  private readonly appName?: string
+  private readonly hostname: string
+  private readonly framing: 'octet-counting' | 'newline'
+  private readonly severities: Readonly<Record<string, SyslogSeverity>>
+
+  private udp?: dgram.Socket
+  private socket?: net.Socket
+  private connected = false
+  private queue: string[] = []
+  private inFlight = 0
+  private closing = false
+  private readonly whenClosed = new Promise<void>((resolve) => this.once('closed', () => resolve()))
+  private releasing = false
+  private readonly counters = { sent: 0, dropped: 0 }
+
+  constructor(options: SyslogTransportOptions) {
+    super(options)
+    const {
+      protocol = 'udp',
+      host = '127.0.0.1',
+      port = 514,
+      path = '/dev/log',
+      facility = 'user',
+      appName,
+      hostname = os.hostname(),
+      framing = protocol === 'unix' ? 'newline' : 'octet-counting',
+      severities,
+    } = options
+
+    const facilityCode = typeof facility === 'number' ? facility : FACILITIES[facility]
+    if (!Number.isInteger(facilityCode) || facilityCode < 0 || facilityCode > 23) {
+      throw new Error(`Invalid syslog facility: ${facility}`)
+    }
+
+    this.protocol = protocol
+    this.host = host
+    this.port = port
+    this.path = path
+    this.facility = facilityCode
+    this.appName = appName
+    this.hostname = hostname
+    this.framing = framing
+    this.severities = severities
+  }
+
+  /**
+   * Messages handed to the socket, dropped, and waiting for a stream connection
+   */
+  get stats(): SyslogStats {
+    return { ...this.counters, queued: this.queue.length }
+  }
+
+  /**
+   * Resolves once the transport is closed, its messages handed to the socket and the socket closed
+   */
+  flushed(): Promise<void> {
+    return this.whenClosed
+  }
+
+  /**
+   * Frames the entry as an RFC 5424 message and sends it as a datagram, or writes it to the stream socket
+   *
+   * @remarks
+   * Messages for a stream socket are queued while it connects.
+   */
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    if (this.closing) {
+      this.counters.dropped++
+      callback()
+      return
+    }
+    const message = this.frame(info)
+    if (this.protocol === 'udp') {
+      this.sendDatagram(message)
+    } else {
+      this.sendStream(message)
+    }
+    callback()
+  }
+
+  /**
+   * Hands queued messages to the socket and closes it
+   *
+   * @remarks
+   * Emits `closed` once every message has been handed to the socket and the socket is closed.
+   * Messages still waiting for a connection that fails are dropped.
+   */
+  close(): void {
+    if (this.closing) {
+      return
+    }
+    this.closing = true
+    if (!this.socket) {
+      this.counters.dropped += this.queue.length
+      this.queue = []
+    }
+    this.settle()
+  }
+
+  /**
+   * Renders an entry as an RFC 5424 message
+   */
+  private frame(info: Record<string | symbol, unknown>): string {
+    const severity = this.severities[String(info.level)] ?? 5
+    const header = [
+      `<${this.facility * 8 + severity}>1`,
+      new Date().toISOString(),
+      headerField(this.hostname, 255),
+      headerField(this.appName, 48),
+      headerField(String(process.pid), 128),
+      headerField(typeof info.module === 'string' ? info.module : undefined, 32),
+      '-',
+    ].join(' ')
+    const message = `${header} ${String(info[MESSAGE] ?? info.message)}`
+
+    if (this.protocol === 'udp') {
+      return message
+    }
+    return this.framing === 'octet-counting'
+      ? `${Buffer.byteLength(message)} ${message}`
+      : `${message.replace(/\r?\n/g, ' ')}\n`
+  }
+
+  private sendDatagram(message: string): void {
+    if (!this.udp) {
+      this.udp = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4')
+      this.udp.on('error', (error) => this.emit('warn', error))
+      this.udp.unref()
+    }
+    this.inFlight++
+    this.udp.send(message, this.port, this.host, (error) => {
+      this.inFlight--
+      this.count(error)
+      this.settle()
+    })
+  }
+
+  private sendStream(message: string): void {
+    if (!this.socket) {
+      this.connect()
+    }
+    if (this.connected) {
+      this.writeToSocket(message)
+    } else if (this.queue.length < MAX_QUEUE) {
+      this.queue.push(message)
+    } else {
+      this.counters.dropped++
+    }
+  }
+
+  private writeToSocket(message: string): void {
+    this.inFlight++
+    this.socket?.write(message, (error) => {
+      this.inFlight--
+      this.count(error)
+      this.settle()
+    })
+  }
+
+  private count(error: Error | null | undefined): void {
+    if (error) {
+      this.counters.dropped++
+      this.emit('warn', error)
+    } else {
+      this.counters.sent++
+    }
+  }
+
+  private connect(): void {
+    const socket =
+      this.protocol === 'unix'
+        ? net.createConnection({ path: this.path })
+        : net.createConnection({ host: this.host, port: this.port })
+    socket.unref()
+    this.socket = socket
+
+    socket.once('connect', () => {
+      this.connected = true
+      const queued = this.queue
+      this.queue = []
+      queued.forEach((message) => this.writeToSocket(message))
+      this.settle()
+    })
+    socket.on('error', (error) => this.emit('warn', error))
+    socket.once('close', () => {
+      if (this.socket !== socket) {
+        return
+      }
+      this.socket = undefined
+      this.connected = false
+      if (this.closing) {
+        this.counters.dropped += this.queue.length
+        this.queue = []
+      }
+      this.settle()
+    })
+  }
+
+  /**
+   * Closes the socket once the transport is closing and nothing is pending
+   */
+  private settle(): void {
+    if (!this.closing || this.releasing || this.inFlight > 0 || this.queue.length > 0) {
+      return
+    }
+    this.releasing = true
+    const done = () => {
+      this.emit('closed')
+    }
+    if (this.udp) {
+      this.udp.close(done)
+    } else if (this.socket) {
+      this.socket.end(done)
+    } else {
+      done()
+    }
+  }
+}
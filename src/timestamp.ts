@@ -0,0 +1,232 @@
+import type { TimestampOptions } from './types'
+
+/**
+ * Date and time components of an instant in a specific timezone
+ * @internal
+ */
+type ZonedParts = {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+  /** Offset from UTC in minutes */
+  offset: number
+}
+
+/**
+ * Token patterns for the `iso` and `rfc3339` presets
+ * @internal
+ */
+const PRESET_PATTERNS: Readonly<Record<'iso' | 'rfc3339', string>> = {
+  iso: 'YYYY-MM-DDTHH:mm:ss.SSSZ',
+  rfc3339: 'YYYY-MM-DDTHH:mm:ss.SSSZZ',
+}
+
+/**
+ * Matches bracket-escaped literals and supported format tokens
+ * @internal
+ */
+const TOKEN_PATTERN = /\[([^\]]*)]|YYYY|YY|MMM|MM|M|DD|D|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z/g
+
+/**
+ * English month abbreviations for the `MMM` token
+ * @internal
+ */
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'] as const
+
+/**
+ * Pads a number with leading zeros
+ * @internal
+ */
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0')
+
+/**
+ * Formats a UTC offset in minutes as `+HH:MM`
+ * @internal
+ */
+const formatOffset = (offset: number): string => {
+  const sign = offset < 0 ? '-' : '+'
+  const absolute = Math.abs(offset)
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+}
+
+/**
+ * Creates a function that splits an instant into its components in a timezone
+ *
+ * @param timezone - `UTC` or an IANA timezone name; the local timezone when omitted
+ * @returns A function returning the zoned components of a date
+ * @throws If the timezone is not a valid IANA timezone
+ * @internal
+ */
+const createZonedParts = (timezone?: string): ((date: Date) => ZonedParts) => {
+  if (!timezone) {
+    return (date) => ({
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+      offset: -date.getTimezoneOffset(),
+    })
+  }
+
+  let formatter: Intl.DateTimeFormat
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+  } catch {
+    throw new Error(`Invalid timezone: ${timezone}`)
+  }
+
+  return (date) => {
+    const parts = Object.fromEntries(
+      formatter
+        .formatToParts(date)
+        .filter(({ type }) => type !== 'literal')
+        .map(({ type, value }) => [type, Number(value)])
+    )
+    const millisecond = date.getUTCMilliseconds()
+    const wallTime = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      millisecond
+    )
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour,
+      minute: parts.minute,
+      second: parts.second,
+      millisecond,
+      offset: Math.round((wallTime - date.getTime()) / 60000),
+    }
+  }
+}
+
+/**
+ * Renders the zoned components of a date using a token pattern
+ * @internal
+ */
+const renderPattern = (pattern: string, parts: ZonedParts): string =>
+  pattern.replace(TOKEN_PATTERN, (token, literal?: string) => {
+    if (literal !== undefined) {
+      return literal
+    }
+    const hour12 = parts.hour % 12 || 12
+    switch (token) {
+      case 'YYYY':
+        return pad(parts.year, 4)
+      case 'YY':
+        return pad(parts.year % 100)
+      case 'MMM':
+        return MONTH_NAMES[parts.month - 1]
+      case 'MM':
+        return pad(parts.month)
+      case 'M':
+        return String(parts.month)
+      case 'DD':
+        return pad(parts.day)
+      case 'D':
+        return String(parts.day)
+      case 'HH':
+        return pad(parts.hour)
+      case 'H':
+        return String(parts.hour)
+      case 'hh':
+        return pad(hour12)
+      case 'h':
+        return String(hour12)
+      case 'mm':
+        return pad(parts.minute)
+      case 'm':
+        return String(parts.minute)
+      case 'ss':
+        return pad(parts.second)
+      case 's':
+        return String(parts.second)
+      case 'SSS':
+        return pad(parts.millisecond, 3)
+      case 'A':
+        return parts.hour < 12 ? 'AM' : 'PM'
+      case 'a':
+        return parts.hour < 12 ? 'am' : 'pm'
+      case 'Z':
+        return parts.offset === 0 ? 'Z' : formatOffset(parts.offset)
+      default:
+        return formatOffset(parts.offset)
+    }
+  })
+
+/**
+ * Creates a function that formats timestamps
+ *
+ * @param options - Timestamp pattern, timezone and locale
+ * @returns A function formatting a date (defaulting to now) as a string
+ * @throws If the timezone is not a valid IANA timezone
+ *
+ * @remarks
+ * The format is either a preset or a token pattern:
+ * - `iso`: `2024-03-01T14:05:09.042Z` (with a numeric offset outside UTC)
+ * - `rfc3339`: `2024-03-01T14:05:09.042+00:00` (always a numeric offset)
+ * - `epoch-ms`: milliseconds since the Unix epoch
+ * - Patterns support `YYYY YY MMM MM M DD D HH H hh h mm m ss s SSS A a Z ZZ`,
+ *   where `MMM` renders the English month abbreviation, `Z` renders `Z` for UTC
+ *   and `ZZ` always renders `+HH:MM`.
+ *   Text inside square brackets is kept as-is.
+ *
+ * Presets are rendered in UTC unless a timezone is given, patterns in the local timezone.
+ * Without a format, the timestamp is rendered with `toLocaleString` in the given locale.
+ *
+ * @example
+ * ```ts
+ * const format = createTimestampFormatter({ format: 'YYYY-MM-DD HH:mm:ss', timezone: 'Europe/Berlin' })
+ * format(new Date('2024-03-01T14:05:09Z'))
+ * // '2024-03-01 15:05:09'
+ * ```
+ */
+export const createTimestampFormatter = (
+  options: TimestampOptions = {}
+): ((date?: Date) => string) => {
+  const { format, timezone, locale } = options
+
+  const isPreset = format === 'iso' || format === 'rfc3339'
+  const zonedParts = createZonedParts(timezone ?? (isPreset ? 'UTC' : undefined))
+
+  if (format === 'epoch-ms') {
+    return (date = new Date()) => String(date.getTime())
+  }
+
+  if (!format) {
+    return (date = new Date()) =>
+      date.toLocaleString(locale || 'en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+  }
+
+  const pattern = isPreset ? PRESET_PATTERNS[format as 'iso' | 'rfc3339'] : format
+  return (date = new Date()) => renderPattern(pattern, zonedParts(date))
+}
@@ -0,0 +1,108 @@
+import { loggerLevel } from './levels'
+import type { LogLevel, Timer, TimingOptions, TypedLogger } from './types'
+
+/**
+ * Milliseconds elapsed since a `performance.now()` reading, rounded to hundredths
+ * @internal
+ */
+export const elapsedMs = (start: number): number => Math.round((performance.now() - start) * 100) / 100
+
+/**
+ * Starts a timer that logs the duration of an operation as a structured `durationMs` field
+ *
+ * @param logger - The logger the duration is written to
+ * @param label - Message of the duration entry
+ * @param options - Level, budget and metadata of the entry
+ * @returns A timer whose `done` logs the duration
+ *
+ * @remarks
+ * When the duration exceeds `budgetMs`, the entry is logged at `overBudgetLevel` (default `warn`)
+ * and carries the budget in `budgetMs`, so slow operations stand out without extra code.
+ *
+ * @example
+ * ```ts
+ * const timer = startTimer(logger, 'Rebuilt search index', { budgetMs: 500 })
+ * await rebuildIndex()
+ * timer.done({ documents: 1200 })
+ * // WARN: Rebuilt search index documents=1200 durationMs=734.21 budgetMs=500
+ * ```
+ */
+export const startTimer = <L extends string = LogLevel>(
+  logger: TypedLogger<L>,
+  label: string,
+  options: TimingOptions<L> = {}
+): Timer => {
+  const start = performance.now()
+  const { budgetMs, context } = options
+  const level = options.level ?? loggerLevel(logger.levels, ['info'], 'least')
+  const overBudgetLevel = options.overBudgetLevel ?? loggerLevel(logger.levels, ['warn', 'warning'], 'most')
+
+  return {
+    elapsed: () => elapsedMs(start),
+    done: (meta) => {
+      const durationMs = elapsedMs(start)
+      const overBudget = budgetMs !== undefined && durationMs > budgetMs
+      logger.log(overBudget ? overBudgetLevel : level, label, {
+        ...context,
+        ...meta,
+        durationMs,
+        ...(overBudget ? { budgetMs } : {}),
+      })
+      return durationMs
+    },
+  }
+}
+
+/**
+ * Runs a sync or async function and logs how long it took
+ *
+ * @param logger - The logger the duration is written to
+ * @param label - Message of the duration entry
+ * @param fn - The function to time
+ * @param options - Level, budget and metadata of the entry
+ * @returns The return value of `fn` (a promise for async functions)
+ *
+ * @remarks
+ * The entry is written once `fn` returns or its promise settles. When it throws or rejects,
+ * the entry is logged at `errorLevel` (default `error`) with the error in `error`, and the
+ * error is rethrown.
+ *
+ * @example
+ * ```ts
+ * const users = await withTiming(logger, 'Loaded users', () => db.users.findMany(), { budgetMs: 200 })
+ * // INFO: Loaded users durationMs=41.07
+ * ```
+ */
+export const withTiming = <T, L extends string = LogLevel>(
+  logger: TypedLogger<L>,
+  label: string,
+  fn: () => T,
+  options: TimingOptions<L> = {}
+): T => {
+  const timer = startTimer(logger, label, options)
+  const errorLevel = options.errorLevel ?? loggerLevel(logger.levels, ['error'], 'most')
+  const fail = (error: unknown) =>
+    logger.log(errorLevel, label, { ...options.context, error, durationMs: timer.elapsed() })
+
+  let result: T
+  try {
+    result = fn()
+  } catch (error) {
+    fail(error)
+    throw error
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        timer.done()
+        return value
+      },
+      (error: unknown) => {
+        fail(error)
+        throw error
+      }
+    ) as T
+  }
+  timer.done()
+  return result
+}
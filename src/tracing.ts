@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomBytes } from 'crypto'
+import { runWithLogContext } from './context'
+import { loggerLevel } from './levels'
+import { elapsedMs, startTimer } from './timing'
+import type { LogLevel, Span, SpanContext, SpanOptions } from './types'
+
+/**
+ * Storage holding the active span of the current asynchronous execution
+ * @internal
+ */
+const storage = new AsyncLocalStorage<Span>()
+
+/**
+ * Format of a version 00 `traceparent` header: version, trace ID, parent span ID and flags
+ * @internal
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+/**
+ * Generates a random non-zero identifier of the given number of bytes as hex
+ * @internal
+ */
+const randomId = (bytes: number): string => {
+  const id = randomBytes(bytes).toString('hex')
+  return /^0+$/.test(id) ? randomId(bytes) : id
+}
+
+/**
+ * Parses a W3C `traceparent` header
+ *
+ * @param header - The header value, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`
+ * @returns The trace ID, parent span ID and sampled flag, or `undefined` for invalid headers
+ *
+ * @remarks
+ * Headers of future versions are accepted as long as they start with the version 00 fields.
+ * All-zero IDs and the forbidden version `ff` are rejected, as the specification requires.
+ *
+ * @example
+ * ```ts
+ * const parent = parseTraceparent(req.headers.traceparent)
+ * const span = startSpan('GET /users', { logger, parent })
+ * ```
+ */
+export const parseTraceparent = (header: string | undefined): SpanContext | undefined => {
+  const value = header?.trim().toLowerCase() ?? ''
+  const match = TRACEPARENT_PATTERN.exec(value.slice(0, 55))
+  if (!match) {
+    return undefined
+  }
+  const [, version, traceId, spanId, flags] = match
+  if (
+    version === 'ff' ||
+    (version === '00' && value.length !== 55) ||
+    (version !== '00' && value.length > 55 && value[55] !== '-') ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return undefined
+  }
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 }
+}
+
+/**
+ * Formats a span as a W3C `traceparent` header value
+ *
+ * @param context - The span's identifiers
+ * @returns The header value, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`
+ */
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`
+
+/**
+ * Gets the span active in the current asynchronous execution
+ *
+ * @returns The span whose `run` encloses the caller, or `undefined` outside of any span
+ */
+export const getActiveSpan = (): Span | undefined => storage.getStore()
+
+/**
+ * Starts a span with W3C compatible trace and span IDs
+ *
+ * @param name - Name of the span, e.g. the operation or route
+ * @param options - Logger and level of the start and end entries, and the parent span
+ * @returns The span; call `run` to make it active and `end` when the work is done
+ *
+ * @remarks
+ * The span joins the trace of its parent: `options.parent` (a span or an incoming `traceparent`
+ * header) or else the active span. Without a parent it starts a new trace.
+ *
+ * Entries logged inside `span.run(...)` by any logger created with `createLogger` carry the
+ * span's `traceId` and `spanId`, and spans started there are nested under it. With a `logger`,
+ * the span logs `<name> started` and `<name> finished` with its duration in `durationMs`.
+ * Only the first call to `end` ends the span.
+ *
+ * @example
+ * ```ts
+ * const span = startSpan('sync-inventory', { logger })
+ * await span.run(async () => {
+ *   logger.info('Fetching stock levels') // includes traceId and spanId
+ *   await fetch(url, { headers: { traceparent: span.traceparent } })
+ * })
+ * span.end({ items: 120 })
+ * ```
+ */
+export const startSpan = <L extends string = LogLevel>(name: string, options: SpanOptions<L> = {}): Span => {
+  const { logger, level } = options
+  const parent =
+    typeof options.parent === 'string' ? parseTraceparent(options.parent) : options.parent ?? getActiveSpan()
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomId(16),
+    spanId: randomId(8),
+    sampled: parent?.sampled ?? true,
+  }
+  const fields = {
+    span: name,
+    traceId: context.traceId,
+    spanId: context.spanId,
+    ...(parent ? { parentSpanId: parent.spanId } : {}),
+  }
+
+  const start = performance.now()
+  const timer = logger ? startTimer(logger, `${name} finished`, { level, context: fields }) : undefined
+  let durationMs: number | undefined
+  if (logger) {
+    logger.log(level ?? loggerLevel(logger.levels, ['info'], 'least'), `${name} started`, fields)
+  }
+
+  const span: Span = {
+    name,
+    ...context,
+    ...(parent ? { parentSpanId: parent.spanId } : {}),
+    traceparent: formatTraceparent(context),
+    run: (fn) => storage.run(span, () => runWithLogContext({ traceId: span.traceId, spanId: span.spanId }, fn)),
+    end: (meta) => (durationMs ??= timer?.done(meta) ?? elapsedMs(start)),
+  }
+  return span
+}
+
+/**
+ * Runs a sync or async function in a new span and ends the span when it completes
+ *
+ * @param name - Name of the span
+ * @param fn - The function to run; it receives the span, e.g. to propagate `span.traceparent`
+ * @param options - Logger and level of the start and end entries, and the parent span
+ * @returns The return value of `fn` (a promise for async functions)
+ *
+ * @remarks
+ * When `fn` throws or rejects, the end entry includes the error in `error` and the error is rethrown.
+ *
+ * @example
+ * ```ts
+ * const order = await withSpan('load-order', () => db.orders.find(id), { logger })
+ * // INFO: load-order started span=load-order traceId=4bf9... spanId=00f0...
+ * // INFO: load-order finished span=load-order traceId=4bf9... spanId=00f0... durationMs=12.3
+ * ```
+ */
+export const withSpan = <T, L extends string = LogLevel>(
+  name: string,
+  fn: (span: Span) => T,
+  options: SpanOptions<L> = {}
+): T => {
+  const span = startSpan(name, options)
+  let result: T
+  try {
+    result = span.run(() => fn(span))
+  } catch (error) {
+    span.end({ error })
+    throw error
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        span.end()
+        return value
+      },
+      (error: unknown) => {
+        span.end({ error })
+        throw error
+      }
+    ) as T
+  }
+  span.end()
+  return result
+}
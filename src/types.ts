@@ -1,4 +1,5 @@
-import type { Logform, transport } from 'winston'
+import type { LeveledLogMethod, Logform, Logger, transport } from 'winston'
+import type TransportStream from 'winston-transport'
 
 /**
  * Symbol used for branding path strings for type safety
@@ -38,14 +39,58 @@ export type Bytes = number & { readonly [BytesBrand]: typeof BytesBrand }
  * @remarks
  * Defines all possible log levels in order of decreasing priority:
  * - error: Critical failures requiring immediate attention
- * - debug: Information useful for debugging
  * - warn: Warning conditions that don't prevent operation
- * - data: Raw data output 
  * - info: Normal operational messages
- * - verbose: Detailed information beyond info level
+ * - data: Raw data output 
+ * - debug: Information useful for debugging
+ * - verbose: Detailed information beyond debug level
  * - silly: Extremely detailed diagnostic information
  */
-export type LogLevelLiteral = 'error' | 'debug' | 'warn' | 'data' | 'info' | 'verbose' | 'silly'
+export type LogLevelLiteral = 'error' | 'warn' | 'info' | 'data' | 'debug' | 'verbose' | 'silly'
+
+/**
+ * Log level names of the syslog scheme (RFC 5424 severities)
+ */
+export type SyslogLevel = 'emerg' | 'alert' | 'crit' | 'error' | 'warning' | 'notice' | 'info' | 'debug'
+
+/**
+ * Built-in log level schemes
+ *
+ * @remarks
+ * - npm: The default levels in standard severity order (error, warn, info, data, debug, verbose, silly)
+ * - legacy: The default levels in their original order, where debug ranks above warn and info
+ * - syslog: The RFC 5424 severities (emerg, alert, crit, error, warning, notice, info, debug)
+ */
+export type LevelScheme = 'legacy' | 'npm' | 'syslog'
+
+/**
+ * Level names provided by each built-in scheme
+ */
+export type LevelSchemeLevels = {
+  legacy: LogLevel
+  npm: LogLevel
+  syslog: SyslogLevel
+}
+
+/**
+ * Keeps a type parameter from being inferred from a position, like the `NoInfer` of TypeScript 5.4
+ *
+ * @remarks
+ * The deferred conditional type is only resolved once the parameter is known, so
+ * it also works with the TypeScript versions before `NoInfer`.
+ * @internal
+ */
+export type NoInference<T> = [T][T extends unknown ? 0 : never]
+
+/**
+ * Resolves the available level names from custom levels or a level scheme
+ *
+ * @typeParam L - Names of custom levels, `never` when none are given
+ * @typeParam S - The level scheme in use
+ */
+export type LevelNames<L extends string, S extends LevelScheme> = [L] extends [never]
+  ? LevelSchemeLevels[S]
+  : L
 
 /**
  * Uppercase versions of log level names
@@ -99,14 +144,31 @@ export type SillyColor = 'grey'
 export type LevelColor = ErrorColor | DebugColor | WarnColor | DataColor | InfoColor | VerboseColor | SillyColor
 
 /**
- * Supported application environments
+ * Environments with built-in default options
  */
-export type Environment = 'development' | 'production' | 'test'
+export type BuiltInEnvironment = 'development' | 'production' | 'test'
 
 /**
- * Standard suffixes for log file names
+ * Application environments: the built-in ones or any registered with `defineEnvironment`
  */
-export type LogFileNameSuffix = '-error.log' | '-warn.log' | '-All.log' | '-%DATE%.log'
+export type Environment = BuiltInEnvironment | (string & {})
+
+/**
+ * Suffix of a routed log file, e.g. `-audit.log`
+ */
+export type RouteFileSuffix = `-${string}.log`
+
+/**
+ * Suffixes for log file names: the standard ones and those of routed files
+ */
+export type LogFileNameSuffix =
+  | '-error.log'
+  | '-warn.log'
+  | '-All.log'
+  | '-%DATE%.log'
+  | '-access.log'
+  | '-access-%DATE%.log'
+  | RouteFileSuffix
 
 /**
  * Log file name can be either a SafePath or a path with a standard suffix
@@ -122,10 +184,10 @@ export type LogFileName = SafePath | `${string}${LogFileNameSuffix}`
  */
 export const enum LogLevelValue {
   error = 0,
-  debug = 1,
-  warn = 2,
+  warn = 1,
+  info = 2,
   data = 3,
-  info = 4,
+  debug = 4,
   verbose = 5,
   silly = 6,
 }
@@ -135,6 +197,32 @@ export const enum LogLevelValue {
  */
 export type LogLevel = keyof typeof LogLevelValue
 
+/**
+ * Definition of a single log level
+ */
+export type LevelDefinition = Readonly<{
+  /** Priority of the level, lower numbers are more severe */
+  severity: number
+  /** Console color, e.g. `red` or a space separated combination such as `bold white redBG` */
+  color?: LevelColor | (string & {})
+}>
+
+/**
+ * Mapping of level names to their definitions
+ */
+export type LevelDefinitions<L extends string = string> = Readonly<Record<L, LevelDefinition>>
+
+/**
+ * Winston logger with a log method for every defined level
+ *
+ * @remarks
+ * The method set is inferred from the `levels` or `levelScheme` passed to `createLogger`,
+ * so `createLogger({ levels: { audit: ... } })` returns a logger with `audit()`.
+ */
+export type TypedLogger<L extends string = LogLevel> = Logger & {
+  readonly [K in L]: LeveledLogMethod
+}
+
 /**
  * Logger configuration type
  * 
@@ -149,18 +237,442 @@ export type LoggerConfig = Readonly<{
   colors: Record<LogLevel, LevelColor>
 }>
 
+/**
+ * Output format for log files
+ *
+ * @remarks
+ * - text: Human readable `timestamp LEVEL: message` lines
+ * - json: One JSON object per line with all metadata preserved
+ * - ndjson: Alias of `json`, named after the newline-delimited JSON convention
+ */
+export type FileOutputFormat = 'text' | 'json' | 'ndjson'
+
+/**
+ * Serialized representation of an Error
+ *
+ * @remarks
+ * Errors don't survive `JSON.stringify` (their own properties are not enumerable),
+ * so they are converted to plain objects before being written.
+ */
+export type SerializedError = {
+  /** Error class name */
+  name: string
+  /** Error message */
+  message: string
+  /** Stack trace, when available */
+  stack?: string
+  /** Error code such as `ENOENT`, when set */
+  code?: unknown
+  /** The serialized `cause`, recursively */
+  cause?: unknown
+  /** The serialized errors of an `AggregateError` */
+  errors?: unknown[]
+  /** Any other enumerable own properties */
+  [key: string]: unknown
+}
+
+/**
+ * Structured log entry written by the JSON file output formats
+ */
+export type StructuredLogEntry = {
+  /** Formatted timestamp of the entry */
+  timestamp: string
+  /** Log level name */
+  level: string
+  /** Name of the logger that produced the entry */
+  logName: string
+  /** Log message */
+  message: unknown
+  /** Metadata and serialized errors */
+  [key: string]: unknown
+}
+
+/**
+ * Entry passed to the `filter` of a log route
+ */
+export type LogRouteEntry = Readonly<{
+  /** Log level name */
+  level: string
+  /** Log message */
+  message: unknown
+  /** Module of the entry, bound through child loggers */
+  module?: unknown
+  /** Metadata and context fields */
+  [key: string]: unknown
+}>
+
+/**
+ * Range of levels by severity, both ends included
+ */
+export type LevelRange<L extends string = LogLevel> = {
+  /** Least severe level of the range, e.g. `warn` for `warn` and `error` */
+  atLeast?: L
+  /** Most severe level of the range, e.g. `info` for `info` and everything less severe */
+  atMost?: L
+}
+
+/**
+ * Rule writing a selection of entries to a file of its own
+ *
+ * @remarks
+ * An entry is written when it matches every condition given.
+ */
+export type LogRoute<L extends string = LogLevel> = {
+  /** Suffix of the file name, `-audit.log` writes `<logName>-audit.log` (`<logName>-audit-%DATE%.log` with daily rotation) */
+  file: RouteFileSuffix
+  /** Exact levels, or a range of levels, written to the file (defaults to all levels) */
+  levels?: readonly L[] | LevelRange<L>
+  /** Modules, matched against the `module` field of entries */
+  module?: string | readonly string[]
+  /** Predicate on the entry's level, message, module and metadata */
+  filter?: (entry: LogRouteEntry) => boolean
+}
+
+/**
+ * Context fields bound to a child logger
+ *
+ * @remarks
+ * Any field is allowed; the common ones are listed for discoverability.
+ */
+export type LoggerBindings = {
+  /** Identifier of the request being handled */
+  requestId?: string
+  /** Tenant the work is performed for */
+  tenant?: string
+  /** Name of the module or subsystem producing the entries */
+  module?: string
+  /** Additional bound fields */
+  [key: string]: unknown
+}
+
+/**
+ * Ambient context attached to every entry logged within `runWithLogContext`
+ *
+ * @remarks
+ * Any field is allowed; the common correlation fields are listed for discoverability.
+ */
+export type LogContext = {
+  /** Identifier correlating work across services */
+  correlationId?: string
+  /** Identifier of the request being handled */
+  requestId?: string
+  /** Identifier of the distributed trace */
+  traceId?: string
+  /** Identifier of the active span, set by `Span.run` */
+  spanId?: string
+  /** Additional context fields */
+  [key: string]: unknown
+}
+
+/**
+ * Names of the built-in redaction patterns
+ */
+export type RedactPatternName = 'creditCard' | 'bearerToken' | 'email'
+
+/**
+ * Rules for masking sensitive data before it reaches any transport
+ */
+export type RedactOptions = {
+  /** Key paths to mask, e.g. `user.password`, `headers.authorization` or `*.token` */
+  paths?: readonly string[]
+  /** Built-in pattern names or regular expressions masked inside any string */
+  patterns?: readonly (RedactPatternName | RegExp)[]
+  /** Replacement for masked values (defaults to `[REDACTED]`) */
+  censor?: string
+}
+
+/**
+ * Named timestamp formats
+ *
+ * @remarks
+ * - iso: ISO 8601 with milliseconds, e.g. `2024-03-01T14:05:09.042Z`
+ * - rfc3339: RFC 3339 with a numeric offset, e.g. `2024-03-01T14:05:09.042+00:00`
+ * - epoch-ms: Milliseconds since the Unix epoch
+ */
+export type TimestampPreset = 'iso' | 'epoch-ms' | 'rfc3339'
+
+/**
+ * Options controlling how timestamps are rendered
+ */
+export type TimestampOptions = {
+  /** A preset or token pattern such as `YYYY-MM-DD HH:mm:ss` */
+  format?: TimestampPreset | (string & {})
+  /** `UTC` or an IANA timezone name such as `Europe/Berlin` */
+  timezone?: string
+  /** Locale used when no format is given */
+  locale?: string
+}
+
+/**
+ * Implementation used for log files
+ *
+ * @remarks
+ * - standard: Winston's `File` transport, writing each entry as it arrives
+ * - buffered: {@link BufferedFileOptions | batched} writes for high-throughput services
+ */
+export type FileWriter = 'standard' | 'buffered'
+
+/**
+ * Batching options of the buffered file writer
+ */
+export type BufferedFileOptions = {
+  /** Buffered size that triggers a write, in bytes (defaults to 64KB) */
+  flushSize?: Bytes
+  /** Maximum time entries stay buffered, in milliseconds (defaults to 1000) */
+  flushInterval?: number
+  /** Buffered size at which `overflow` applies, in bytes (defaults to 8MB) */
+  maxBufferSize?: Bytes
+  /** Whether a full buffer holds back the logger until it is written, or drops new entries (defaults to `block`) */
+  overflow?: 'block' | 'drop'
+}
+
+/**
+ * Options of the buffered file transport
+ */
+export type BufferedFileTransportOptions = TransportStream.TransportStreamOptions &
+  BufferedFileOptions & {
+    /** Path of the log file, a `%DATE%` in it starts a new file each day */
+    filename: string
+    /** Size at which the file is rotated, in bytes */
+    maxsize?: number
+    /** Maximum number of files to keep, including the current one */
+    maxFiles?: number
+    /** Compress rotated files to `.gz` archives (defaults to `false`) */
+    zippedArchive?: boolean
+    /** Line terminator (defaults to `os.EOL`) */
+    eol?: string
+  }
+
+/**
+ * Counters of a buffered file transport
+ */
+export type BufferedFileStats = {
+  /** Entries written to disk */
+  written: number
+  /** Entries dropped because the buffer was full, the transport was closed or a write failed */
+  dropped: number
+  /** Writes issued, each containing one or more entries */
+  flushes: number
+  /** Times the logger was held back because the buffer was full */
+  blocked: number
+  /** Size of the entries waiting to be written, in bytes */
+  bufferedBytes: number
+}
+
+/**
+ * Syslog facility name, as defined by RFC 5424
+ */
+export type SyslogFacility =
+  | 'kern'
+  | 'user'
+  | 'mail'
+  | 'daemon'
+  | 'auth'
+  | 'syslog'
+  | 'lpr'
+  | 'news'
+  | 'uucp'
+  | 'cron'
+  | 'authpriv'
+  | 'ftp'
+  | 'local0'
+  | 'local1'
+  | 'local2'
+  | 'local3'
+  | 'local4'
+  | 'local5'
+  | 'local6'
+  | 'local7'
+
+/**
+ * Syslog severity, from 0 (emergency) to 7 (debug)
+ */
+export type SyslogSeverity = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7
+
+/**
+ * Options of the syslog output
+ *
+ * @typeParam L - Names of the logger's levels
+ */
+export type SyslogOptions<L extends string = LogLevel> = {
+  /** Transport to the syslog server (defaults to `udp`) */
+  protocol?: 'udp' | 'tcp' | 'unix'
+  /** Host of the syslog server for `udp` and `tcp` (defaults to `127.0.0.1`) */
+  host?: string
+  /** Port of the syslog server for `udp` and `tcp` (defaults to 514) */
+  port?: number
+  /** Path of the stream socket for `unix` (defaults to `/dev/log`) */
+  path?: string
+  /** Facility of every message, by name or number (defaults to `user`) */
+  facility?: SyslogFacility | number
+  /** APP-NAME field (defaults to the logger's `logName`) */
+  appName?: string
+  /** HOSTNAME field (defaults to `os.hostname()`) */
+  hostname?: string
+  /** Message framing of stream protocols (defaults to `octet-counting` for `tcp` and `newline` for `unix`) */
+  framing?: 'octet-counting' | 'newline'
+  /** Syslog severity of levels whose name has no standard mapping, or to override it */
+  severities?: Partial<Record<L, SyslogSeverity>>
+}
+
+/**
+ * Options of the syslog transport
+ */
+export type SyslogTransportOptions = TransportStream.TransportStreamOptions &
+  Omit<SyslogOptions<string>, 'severities'> & {
+    /** Syslog severity of every level the transport receives */
+    severities: Readonly<Record<string, SyslogSeverity>>
+  }
+
+/**
+ * Counters of a syslog transport
+ */
+export type SyslogStats = {
+  /** Messages handed to the socket */
+  sent: number
+  /** Messages dropped because the connection failed, the queue was full or the transport was closed */
+  dropped: number
+  /** Messages waiting for a stream connection */
+  queued: number
+}
+
+/**
+ * Options of shipping entries to an HTTP endpoint in batches
+ */
+export type HttpShippingOptions = {
+  /** Endpoint receiving `POST` requests with NDJSON bodies */
+  url: string
+  /** Extra request headers, e.g. `Authorization` */
+  headers?: Readonly<Record<string, string>>
+  /** Compress request bodies with gzip (defaults to `true`) */
+  gzip?: boolean
+  /** Entries per request (defaults to 100) */
+  batchSize?: number
+  /** Maximum time entries wait for a batch to fill, in milliseconds (defaults to 1000) */
+  flushInterval?: number
+  /** Request timeout in milliseconds (defaults to 10000) */
+  timeout?: number
+  /** Retries of a failed request before its batch is spooled (defaults to 5) */
+  retries?: number
+  /** Delay before the first retry, doubled for every further retry, in milliseconds (defaults to 500) */
+  retryDelay?: number
+  /** Longest delay between retries and between attempts to replay the spool, in milliseconds (defaults to 30000) */
+  maxRetryDelay?: number
+  /** Keep batches on disk while the endpoint is unavailable (defaults to `true`) */
+  spool?: boolean
+  /** Directory of the spool (defaults to `spool` in the logger's directory) */
+  spoolDirectory?: string
+  /** Maximum size of the spool in bytes; further batches are dropped (defaults to 100MB) */
+  maxSpoolSize?: Bytes
+}
+
+/**
+ * Options of the HTTP batch transport
+ */
+export type HttpBatchTransportOptions = TransportStream.TransportStreamOptions &
+  Omit<HttpShippingOptions, 'spool' | 'spoolDirectory'> & {
+    /** Directory of the spool; batches that cannot be delivered are dropped without one */
+    spoolDirectory?: SafePath
+  }
+
+/**
+ * Counters of an HTTP batch transport, in entries
+ */
+export type HttpBatchStats = {
+  /** Entries accepted by the endpoint, including replayed ones */
+  sent: number
+  /** Entries dropped because the endpoint rejected them, the spool was full or disabled, or the transport was closed */
+  dropped: number
+  /** Entries written to the spool */
+  spooled: number
+  /** Requests retried after a failure */
+  retries: number
+  /** Entries waiting to be sent */
+  pending: number
+}
+
+/**
+ * Limit for identical messages
+ *
+ * @typeParam L - Names of the logger's levels
+ */
+export type SamplingRateLimit<L extends string = LogLevel> = {
+  /** Entries kept per message key and interval */
+  max: number
+  /** Length of the interval in milliseconds (defaults to 60000) */
+  interval?: number
+  /** Levels the limit applies to (defaults to all levels) */
+  levels?: readonly L[]
+}
+
+/**
+ * Sampling and rate limiting options
+ *
+ * @remarks
+ * Messages are identical when they share a level and their `sampleKey` field, or their
+ * message template (the message before `%s` style arguments are applied) if they have none.
+ *
+ * @typeParam L - Names of the logger's levels
+ */
+export type SamplingOptions<L extends string = LogLevel> = {
+  /** Keep 1 in N entries of a level, e.g. `{ debug: 100 }` */
+  rates?: Readonly<Partial<Record<L, number>>>
+  /** Keep at most `max` identical messages per interval and log how many were suppressed */
+  rateLimit?: SamplingRateLimit<L>
+}
+
+/**
+ * Renderer used for console output when `prettyPrint` is enabled
+ *
+ * @remarks
+ * - default: Aligned columns, `[logName]`/`[module]` tags, metadata and errors rendered YAML style
+ * - doge: JSON messages and metadata rendered as `< wow "key" such "value" >`
+ */
+export type PrettyTheme = 'default' | 'doge'
+
+/**
+ * Options of the pretty console renderer
+ */
+export type PrettyFormatOptions = {
+  /** Level definitions, used for level colors and to align the message column */
+  levels: LevelDefinitions
+  /** Logger name, shown as a `[logName]` tag */
+  logName?: string
+  /** Color levels, tags and values (defaults to `false`) */
+  colorize?: boolean
+}
+
+/**
+ * Options for collapsing identical consecutive console lines
+ */
+export type CollapseRepeatsOptions = {
+  /** Milliseconds after which the count of held back repeats is printed (defaults to 5000) */
+  window?: number
+}
+
 /**
  * Logger options interface
  * 
  * @remarks
  * Comprehensive configuration options for creating a logger instance.
  * Provides options for file logging, console output, rotation, formatting, etc.
+ *
+ * @typeParam L - Names of custom log levels
+ * @typeParam S - The built-in level scheme used when no custom levels are given
  */
-export interface LoggerOptions {
+export interface LoggerOptions<L extends string = LogLevel, S extends LevelScheme = LevelScheme> {
   /** Name of the logger instance */
   logName?: string
+  /** Environment whose defaults are used, overriding `NODE_ENV` */
+  environment?: Environment
+  /** Built-in level scheme (defaults to `npm`) */
+  levelScheme?: S
+  /** Custom log level definitions, replacing the level scheme */
+  levels?: LevelDefinitions<L>
   /** Minimum log level to record */
-  level?: LogLevel
+  level?: NoInference<LevelNames<L, S>>
+  /** Minimum log level per module, matched against the `module` field of entries */
+  moduleLevels?: Readonly<Record<string, NoInference<LevelNames<L, S>>>>
   /** Base directory for log files */
   logDirectory: string
   /** Enable file-based logging */
@@ -173,17 +685,37 @@ export interface LoggerOptions {
   separateErrorLog?: boolean
   /** Create separate file for warning logs */
   separateWarnLog?: boolean
+  /** Additional log files, each receiving the entries selected by levels, modules or a predicate */
+  routes?: readonly LogRoute<NoInference<LevelNames<L, S>>>[]
+  /** Write entries of the request logging middleware at or above `level` to `<logName>-access.log` in Combined Log Format or a token template */
+  accessLog?: boolean | AccessLogOptions
   /** Use daily rotation for log files */
   useDailyRotation?: boolean
+  /** Output format for log files */
+  fileOutputFormat?: FileOutputFormat
+  /** Implementation used for log files (defaults to `standard`) */
+  fileWriter?: FileWriter
+  /** Batching options when `fileWriter` is `buffered` */
+  fileWriterOptions?: BufferedFileOptions
+  /** Ship entries as NDJSON batches to an HTTP endpoint, spooling them to disk during outages */
+  shipping?: HttpShippingOptions
+  /** Send entries to a syslog server using RFC 5424 over UDP, TCP or a Unix stream socket */
+  syslog?: SyslogOptions<NoInference<LevelNames<L, S>>>
   /** Enable console logging */
   enableConsoleLogging?: boolean
   /** Enable pretty printing of logs */
   prettyPrint?: boolean
+  /** Renderer used when `prettyPrint` is enabled (defaults to `default`) */
+  prettyTheme?: PrettyTheme
   /** Enable colorized output */
   colorize?: boolean
-  /** Custom timestamp format */
-  timestampFormat?: string
-  /** Locale for timestamp formatting */
+  /** Collapse identical consecutive console lines into `(repeated N×)` */
+  collapseRepeats?: boolean | CollapseRepeatsOptions
+  /** Timestamp preset (`iso`, `rfc3339`, `epoch-ms`) or token pattern such as `YYYY-MM-DD HH:mm:ss` */
+  timestampFormat?: TimestampPreset | (string & {})
+  /** Timezone for timestamps: `UTC` or an IANA timezone name */
+  timezone?: string
+  /** Locale for timestamp formatting when no `timestampFormat` is given */
   locale?: string
   /** Disable all logging */
   silent?: boolean
@@ -191,12 +723,93 @@ export interface LoggerOptions {
   handleExceptions?: boolean
   /** Handle unhandled rejections */
   handleRejections?: boolean
+  /** Sensitive data redaction rules, or a list of key paths to mask */
+  redact?: RedactOptions | readonly string[]
+  /** Sampling of verbose levels and rate limiting of identical messages */
+  sampling?: SamplingOptions<NoInference<LevelNames<L, S>>>
   /** Additional custom transports */
   customTransports?: readonly transport[]
   /** Custom log format */
   customFormat?: Logform.Format
 }
 
+/**
+ * Logger options that can be changed on a running logger
+ *
+ * @typeParam L - Names of the logger's levels
+ */
+export type ReloadableLoggerOptions<L extends string = LogLevel> = {
+  /** Minimum log level to record */
+  level?: L
+  /** Enable console logging */
+  enableConsoleLogging?: boolean
+  /** Sensitive data redaction rules; `false` disables redaction */
+  redact?: RedactOptions | readonly string[] | false
+  /** Minimum log level per module, replacing the previous overrides */
+  moduleLevels?: Readonly<Record<string, L>>
+}
+
+/**
+ * Options for watching a logger config file
+ */
+export type ConfigWatcherOptions = {
+  /** Signal that triggers a reload, or `false` to disable (defaults to `SIGHUP`) */
+  signal?: NodeJS.Signals | false
+  /** Reload when the file changes (defaults to `true`) */
+  watchFile?: boolean
+  /** Polling interval for file changes in milliseconds (defaults to 1000) */
+  interval?: number
+  /** Called with the applied options after each successful reload */
+  onReload?: (options: ReloadableLoggerOptions<string>) => void
+  /** Called when the file cannot be read or is invalid (defaults to `console.error`) */
+  onError?: (error: Error) => void
+}
+
+/**
+ * Handle of a running config file watcher
+ */
+export type ConfigWatcher = {
+  /** Reloads the file now, returning whether the new config was applied */
+  reload: () => boolean
+  /** Stops watching the file and listening for the signal */
+  close: () => void
+}
+
+/**
+ * Transport that keeps writing after its logger closed it
+ *
+ * @remarks
+ * `shutdown` and `closeAll` wait for `flushed()` of every transport implementing it.
+ */
+export interface FlushableTransport {
+  /** Resolves once the transport is closed and has finished with every entry it was given */
+  flushed(): Promise<void>
+}
+
+/**
+ * Options for closing loggers with `shutdown` or `closeAll`
+ */
+export type ShutdownOptions = {
+  /** Maximum time to wait for buffered writes in milliseconds (defaults to 5000) */
+  timeout?: number
+}
+
+/**
+ * Options for loading logger options with `loadLoggerOptions`
+ */
+export type ConfigLoaderOptions = {
+  /** Environment whose defaults are used (defaults to `NODE_ENV`, then `development`) */
+  environment?: string
+  /** Path of the config file, or `false` to skip config files (defaults to looking up `loggerama.config.ts` and `.json`) */
+  configFile?: string | false
+  /** Directory config file paths are resolved against (defaults to the working directory) */
+  cwd?: string
+  /** Environment variables to read (defaults to `process.env`) */
+  env?: Readonly<Record<string, string | undefined>>
+  /** Options set in code, taking precedence over every other source */
+  overrides?: Partial<LoggerOptions<string>>
+}
+
 /**
  * Required properties for logger options
  * 
@@ -218,7 +831,7 @@ export type RequiredLoggerOptions = Required<{
  * This type ensures that required properties are present while
  * making all other properties optional.
  */
-export type MergedLoggerOptions = RequiredLoggerOptions & Partial<LoggerOptions>
+export type MergedLoggerOptions<L extends string = LogLevel> = RequiredLoggerOptions & Partial<LoggerOptions<L>>
 
 /**
  * Default options for different environments
@@ -228,13 +841,191 @@ export type MergedLoggerOptions = RequiredLoggerOptions & Partial<LoggerOptions>
  * These are readonly to prevent accidental modification.
  */
 export type DefaultOptions = Readonly<{
-  [K in Environment]: Readonly<Partial<LoggerOptions>>
+  [K in BuiltInEnvironment]: Readonly<Partial<LoggerOptions>>
 }>
 
+/**
+ * Default options of a user-defined environment
+ */
+export type EnvironmentDefinition = Readonly<Partial<LoggerOptions<string>>> & {
+  /** Environment whose defaults are copied before applying these options */
+  extends?: Environment
+}
+
 /**
  * Extended Error type with optional code property
  * 
  * @remarks
  * Used for handling file system errors that typically include an error code.
  */
-export type TypedError = Error & { code?: string } 
\ No newline at end of file
+export type TypedError = Error & { code?: string } 
+/**
+ * Outcome of an operation run through `tryCatch` and its variants
+ *
+ * @remarks
+ * Check `success` to narrow the result to its `data` or its `error`.
+ */
+export type Result<T, E extends Error = Error> =
+  | { success: true; data: T; error: null }
+  | { success: false; data: null; error: E }
+
+/**
+ * Options of `tryCatchLogged` and `tryCatchSyncLogged`
+ */
+export type TryCatchLoggedOptions<L extends string = LogLevel, E extends Error = Error> = {
+  /** Level failures are logged at (default: `error`, or the most severe level if the logger has none) */
+  level?: L
+  /** Message of the failure entry (default: `Operation failed`) */
+  message?: string
+  /** Metadata added to the failure entry */
+  context?: Record<string, unknown>
+  /** Converts the thrown value into the error that is logged and returned */
+  errorHandler?: (error: unknown) => E
+}
+
+/**
+ * Options of `startTimer` and `withTiming`
+ */
+export type TimingOptions<L extends string = LogLevel> = {
+  /** Level of the duration entry (default: `info`, or the least severe level if the logger has none) */
+  level?: L
+  /** Duration in milliseconds above which the entry is escalated to `overBudgetLevel` */
+  budgetMs?: number
+  /** Level of entries exceeding `budgetMs` (default: `warn`, `warning` or the most severe level) */
+  overBudgetLevel?: L
+  /** Level of the entry when the function timed by `withTiming` fails (default: `error` or the most severe level) */
+  errorLevel?: L
+  /** Metadata added to the duration entry */
+  context?: Record<string, unknown>
+}
+
+/**
+ * Running timer created by `startTimer`
+ */
+export type Timer = {
+  /** Milliseconds elapsed since the timer started */
+  elapsed: () => number
+  /** Logs the duration with optional extra metadata and returns it in milliseconds */
+  done: (meta?: Record<string, unknown>) => number
+}
+
+/**
+ * Identifiers of a span, as carried by a W3C `traceparent` header
+ */
+export type SpanContext = {
+  /** 32 lowercase hex characters identifying the trace */
+  traceId: string
+  /** 16 lowercase hex characters identifying the span */
+  spanId: string
+  /** Whether the caller recorded the trace (the `sampled` trace flag) */
+  sampled: boolean
+}
+
+/**
+ * Options of `startSpan` and `withSpan`
+ */
+export type SpanOptions<L extends string = LogLevel> = {
+  /** Logger the start and end of the span are written to; nothing is logged without one */
+  logger?: TypedLogger<L>
+  /** Level of the start and end entries (default: `info`) */
+  level?: L
+  /** Parent span or incoming `traceparent` header (default: the active span) */
+  parent?: SpanContext | string
+}
+
+/**
+ * Span created by `startSpan`
+ */
+export type Span = SpanContext & {
+  /** Name of the span, used in its log entries */
+  name: string
+  /** Identifier of the parent span, if any */
+  parentSpanId?: string
+  /** The span as a `traceparent` header value for outgoing requests */
+  traceparent: string
+  /** Runs a function with this span active, stamping its IDs into every entry logged within it */
+  run: <T>(fn: () => T) => T
+  /** Ends the span once, logging its duration with optional extra metadata, and returns the duration in milliseconds (the same one on later calls) */
+  end: (meta?: Record<string, unknown>) => number
+}
+
+/**
+ * Class of an HTTP status code
+ */
+export type HttpStatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx'
+
+/**
+ * Request fields passed to the `skip` rule of the request logging middleware
+ */
+export type HttpRequestSummary = {
+  /** Request method, e.g. `GET` */
+  method: string
+  /** Request path including the query string */
+  url: string
+  /** Request headers with lowercase names */
+  headers: Readonly<Record<string, string | string[] | undefined>>
+}
+
+/**
+ * Structured fields of the access entry written for every request
+ */
+export type HttpAccessFields = {
+  /** Request method */
+  method: string
+  /** Request path including the query string */
+  url: string
+  /** Route pattern, e.g. `/users/:id`, when the framework provides one */
+  route?: string
+  /** Response status code */
+  status: number
+  /** Time from receiving the request until the response was sent, in milliseconds */
+  durationMs: number
+  /** Size of the response body in bytes, when known */
+  bytes?: number
+  /** Address of the client */
+  ip?: string
+  /** `User-Agent` request header */
+  userAgent?: string
+  /** `Referer` request header */
+  referer?: string
+  /** HTTP version of the request, e.g. `1.1` */
+  httpVersion?: string
+  /** Request ID taken from the request headers or generated */
+  requestId: string
+  /** Set when the client closed the connection before the response was sent */
+  aborted?: true
+}
+
+/**
+ * Line format of the access log
+ *
+ * @remarks
+ * - combined: Apache/Nginx Combined Log Format, the common format plus referrer and user agent
+ * - common: Common Log Format
+ * - Any other string is a template of `:token` placeholders, e.g. `:method :url :status :response-time`
+ */
+export type AccessLogFormat = 'combined' | 'common' | (string & {})
+
+/**
+ * Options of the access log file
+ */
+export type AccessLogOptions = {
+  /** Line format (default: `combined`) */
+  format?: AccessLogFormat
+}
+
+/**
+ * Options of the request logging middleware
+ */
+export type RequestLoggingOptions<L extends string = LogLevel> = {
+  /** Level of the access entry per status class (default: `info`, `4xx` at `warn`, `5xx` at `error`) */
+  levels?: Partial<Record<HttpStatusClass, L>>
+  /** Paths (exact strings or patterns matched against the path without query) or a rule for requests that are not logged */
+  skip?: ReadonlyArray<string | RegExp> | ((request: HttpRequestSummary) => boolean)
+  /** Request and response header carrying the request ID, used when it is at most 128 letters, digits and `-_.:` (default: `x-request-id`) */
+  requestIdHeader?: string
+  /** Generates request IDs for requests without one (default: `crypto.randomUUID`) */
+  generateRequestId?: () => string
+  /** Take the client address from the first `X-Forwarded-For` entry (default: `false`) */
+  trustProxy?: boolean
+}
@@ -1,5 +1,19 @@
-import { describe, expect, test } from 'bun:test'
-import { tryCatch, tryCatchSync } from '../tryCatchWrapper'
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createLogger } from '../../log-facotry'
+import { shutdown } from '../../registry'
+import {
+  andThen,
+  mapResult,
+  tryCatch,
+  tryCatchLogged,
+  tryCatchSync,
+  tryCatchSyncLogged,
+  unwrapOr,
+} from '../tryCatchWrapper'
+
+const TEST_LOG_DIR = path.join(process.cwd(), 'test-logs-try-catch')
 
 describe('tryCatch', () => {
   test('handles successful async operations', async () => {
@@ -164,4 +178,114 @@ describe('Type Safety', () => {
       expect(syncResult.error.code).toBe('E001')
     }
   })
-}) 
\ No newline at end of file
+}) 
+
+describe('tryCatchLogged', () => {
+  const createJsonLogger = (logName: string) =>
+    createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      fileOutputFormat: 'json',
+      enableConsoleLogging: false,
+      level: 'debug',
+    })
+
+  const readEntries = (logName: string) =>
+    fs
+      .readFileSync(path.join(TEST_LOG_DIR, logName, `${logName}-All.log`), 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+
+  afterAll(async () => {
+    await shutdown()
+    fs.rmSync(TEST_LOG_DIR, { recursive: true, force: true })
+  })
+
+  test('logs failures with the serialized error, context and duration', async () => {
+    const logName = 'test-try-catch-logged'
+    const logger = createJsonLogger(logName)
+
+    const failed = await tryCatchLogged(
+      logger,
+      async () => {
+        throw Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED' })
+      },
+      { message: 'Failed to load user', context: { userId: 42 } }
+    )
+    const succeeded = await tryCatchLogged(logger, async () => 'ok')
+    const warned = tryCatchSyncLogged(
+      logger,
+      () => {
+        throw 'not an error'
+      },
+      { level: 'warn' }
+    )
+    await shutdown()
+
+    expect(failed.success).toBe(false)
+    expect(succeeded).toEqual({ success: true, data: 'ok', error: null })
+    expect(warned.error?.message).toBe('not an error')
+
+    const [first, second, ...rest] = readEntries(logName)
+    expect(rest).toEqual([])
+    expect(first).toMatchObject({
+      level: 'error',
+      message: 'Failed to load user',
+      userId: 42,
+      error: { name: 'Error', message: 'Connection refused', code: 'ECONNREFUSED' },
+    })
+    expect(first.durationMs).toBeGreaterThanOrEqual(0)
+    expect(second).toMatchObject({ level: 'warn', message: 'Operation failed', error: { message: 'not an error' } })
+  })
+
+  test('defaults to the most severe level when the logger has no error level', async () => {
+    const logName = 'test-try-catch-levels'
+    const logger = createLogger({
+      logDirectory: TEST_LOG_DIR,
+      logName,
+      fileOutputFormat: 'json',
+      enableConsoleLogging: false,
+      levels: { fatal: { severity: 0 }, trace: { severity: 1 } },
+      level: 'trace',
+    })
+
+    tryCatchSyncLogged(logger, () => {
+      throw new Error('Disk full')
+    })
+
+    await shutdown()
+
+    expect(readEntries(logName)).toEqual([expect.objectContaining({ level: 'fatal', message: 'Operation failed' })])
+  })
+})
+
+describe('Result helpers', () => {
+  const failure = tryCatchSync<number>(() => {
+    throw new Error('boom')
+  })
+
+  test('mapResult transforms successful data only', () => {
+    expect(mapResult(tryCatchSync(() => 2), (n) => n * 3)).toEqual({ success: true, data: 6, error: null })
+    expect(mapResult(failure, (n) => n * 3)).toBe(failure)
+  })
+
+  test('andThen chains result-returning operations', () => {
+    const parse = (text: string) => tryCatchSync(() => JSON.parse(text) as { port: number })
+
+    expect(andThen(tryCatchSync(() => '{"port":8080}'), parse)).toEqual({
+      success: true,
+      data: { port: 8080 },
+      error: null,
+    })
+    const invalid = andThen(tryCatchSync(() => '{port'), parse)
+    expect(invalid.success).toBe(false)
+    expect(invalid.error).toBeInstanceOf(SyntaxError)
+    expect(andThen(failure, () => tryCatchSync(() => 'never'))).toBe(failure)
+  })
+
+  test('unwrapOr returns the data or the fallback', () => {
+    expect(unwrapOr(tryCatchSync(() => 5), 0)).toBe(5)
+    expect(unwrapOr(failure, 0)).toBe(0)
+  })
+})
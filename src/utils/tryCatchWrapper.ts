@@ -1,6 +1,6 @@
-type Result<T, E extends Error = Error> = 
-  | { success: true; data: T; error: null }
-  | { success: false; data: null; error: E }
+import { loggerLevel } from '../levels'
+import { elapsedMs } from '../timing'
+import type { LogLevel, Result, TryCatchLoggedOptions, TypedLogger } from '../types'
 
 /**
  * Type-safe wrapper for async operations that may fail
@@ -45,3 +45,123 @@ export const tryCatchSync = <T, E extends Error = Error>(
     return { success: false, data: null, error: handledError }
   }
 }
+
+/**
+ * Logs a failed result with its error and the duration of the operation
+ * @internal
+ */
+const logFailure = <T, E extends Error>(
+  logger: TypedLogger<string>,
+  result: Result<T, E>,
+  options: TryCatchLoggedOptions<string, E>,
+  start: number
+): Result<T, E> => {
+  if (!result.success) {
+    const { level = loggerLevel(logger.levels, ['error'], 'most'), message = 'Operation failed', context } = options
+    logger.log(level, message, { ...context, error: result.error, durationMs: elapsedMs(start) })
+  }
+  return result
+}
+
+/**
+ * Runs an async operation like `tryCatch` and logs its failure
+ *
+ * @param logger - The logger failures are written to
+ * @param operation - Async operation to execute
+ * @param options - Level, message and metadata of the failure entry, and an optional error handler
+ * @returns Result object with success status, data, and error
+ *
+ * @remarks
+ * Failures are logged with the error in the `error` field, serialized like any other logged error,
+ * and the time the operation took in `durationMs`. Successful operations are not logged.
+ *
+ * @example
+ * ```ts
+ * const result = await tryCatchLogged(logger, () => db.users.find(id), {
+ *   message: 'Failed to load user',
+ *   context: { userId: id },
+ * })
+ * // ERROR: Failed to load user userId=42 error={...} durationMs=12.5
+ * ```
+ */
+export const tryCatchLogged = async <T, L extends string = LogLevel, E extends Error = Error>(
+  logger: TypedLogger<L>,
+  operation: () => Promise<T>,
+  options: TryCatchLoggedOptions<L, E> = {}
+): Promise<Result<T, E>> => {
+  const start = performance.now()
+  const result = await tryCatch(operation, options.errorHandler)
+  return logFailure(logger as TypedLogger<string>, result, options, start)
+}
+
+/**
+ * Runs a synchronous operation like `tryCatchSync` and logs its failure
+ *
+ * @param logger - The logger failures are written to
+ * @param operation - Sync operation to execute
+ * @param options - Level, message and metadata of the failure entry, and an optional error handler
+ * @returns Result object with success status, data, and error
+ *
+ * @remarks
+ * See {@link tryCatchLogged}.
+ */
+export const tryCatchSyncLogged = <T, L extends string = LogLevel, E extends Error = Error>(
+  logger: TypedLogger<L>,
+  operation: () => T,
+  options: TryCatchLoggedOptions<L, E> = {}
+): Result<T, E> => {
+  const start = performance.now()
+  const result = tryCatchSync(operation, options.errorHandler)
+  return logFailure(logger as TypedLogger<string>, result, options, start)
+}
+
+/**
+ * Transforms the data of a successful result
+ *
+ * @param result - The result to transform
+ * @param fn - Transformation of the data
+ * @returns A result with the transformed data, or the failed result unchanged
+ *
+ * @example
+ * ```ts
+ * const names = mapResult(await tryCatch(fetchUsers), (users) => users.map((user) => user.name))
+ * ```
+ */
+export const mapResult = <T, U, E extends Error>(
+  result: Result<T, E>,
+  fn: (data: T) => U
+): Result<U, E> => (result.success ? { success: true, data: fn(result.data), error: null } : result)
+
+/**
+ * Chains an operation that returns a result onto a successful result
+ *
+ * @param result - The result to continue from
+ * @param fn - Operation run with the data of a successful result
+ * @returns The result of `fn`, or the failed result unchanged
+ *
+ * @example
+ * ```ts
+ * const config = andThen(tryCatchSync(() => fs.readFileSync(file, 'utf-8')), (text) =>
+ *   tryCatchSync(() => JSON.parse(text))
+ * )
+ * ```
+ */
+export const andThen = <T, U, E extends Error, F extends Error = E>(
+  result: Result<T, E>,
+  fn: (data: T) => Result<U, F>
+): Result<U, E | F> => (result.success ? fn(result.data) : result)
+
+/**
+ * Gets the data of a successful result, or a fallback for a failed one
+ *
+ * @param result - The result to unwrap
+ * @param fallback - Value returned when the result failed
+ * @returns The data or the fallback
+ *
+ * @example
+ * ```ts
+ * const retries = unwrapOr(tryCatchSync(() => parseRetries(env.RETRIES)), 3)
+ * ```
+ */
+export const unwrapOr = <T, U = T>(result: Result<T, Error>, fallback: U): T | U =>
+  result.success ? result.data : fallback
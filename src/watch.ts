@@ -0,0 +1,193 @@
+import * as fs from 'fs'
+import type * as winston from 'winston'
+import { isRecord, LoggerConfigError, parseRedactOption } from './config'
+import { findRuntime, reconfigureLogger } from './runtime'
+import type {
+  ConfigWatcher,
+  ConfigWatcherOptions,
+  ReloadableLoggerOptions,
+  TypedLogger,
+} from './types'
+import { createSafePath } from './utils'
+
+/**
+ * Keys that may appear in a reloadable config file
+ * @internal
+ */
+const RELOADABLE_KEYS = ['level', 'enableConsoleLogging', 'redact', 'moduleLevels']
+
+/**
+ * Validates the contents of a reloadable config file
+ *
+ * @param raw - The parsed JSON contents
+ * @param levels - Level names defined for the logger
+ * @returns The validated options, or the list of problems found
+ * @internal
+ */
+export const parseReloadableOptions = (
+  raw: unknown,
+  levels: readonly string[]
+):
+  | { options: ReloadableLoggerOptions<string>; issues?: undefined }
+  | { options?: undefined; issues: string[] } => {
+  if (!isRecord(raw)) {
+    return { issues: ['config must be a JSON object'] }
+  }
+
+  const issues: string[] = []
+  const checkLevel = (key: string, value: unknown) => {
+    if (typeof value !== 'string' || !levels.includes(value)) {
+      issues.push(`${key} must be one of ${levels.join(', ')} (got ${JSON.stringify(value)})`)
+    }
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!RELOADABLE_KEYS.includes(key)) {
+      issues.push(`${key} is not a reloadable option (expected ${RELOADABLE_KEYS.join(', ')})`)
+    }
+  }
+
+  const { level, enableConsoleLogging, redact, moduleLevels } = raw
+  if (level !== undefined) {
+    checkLevel('level', level)
+  }
+  if (enableConsoleLogging !== undefined && typeof enableConsoleLogging !== 'boolean') {
+    issues.push('enableConsoleLogging must be a boolean')
+  }
+  if (moduleLevels !== undefined) {
+    if (isRecord(moduleLevels)) {
+      for (const [module, moduleLevel] of Object.entries(moduleLevels)) {
+        checkLevel(`moduleLevels.${module}`, moduleLevel)
+      }
+    } else {
+      issues.push('moduleLevels must be an object mapping module names to levels')
+    }
+  }
+
+  const parsedRedact =
+    redact === false || redact === undefined ? redact : parseRedactOption(redact, issues)
+
+  if (issues.length > 0) {
+    return { issues }
+  }
+  return {
+    options: {
+      level: level as string | undefined,
+      enableConsoleLogging: enableConsoleLogging as boolean | undefined,
+      redact: parsedRedact,
+      moduleLevels: moduleLevels as Record<string, string> | undefined,
+    },
+  }
+}
+
+/**
+ * Reloads selected logger options from a JSON file on change or on a signal
+ *
+ * @param logger - A logger created by `createLogger`, or a child of one
+ * @param configPath - Path of the JSON config file
+ * @param options - Watcher options
+ * @returns A watcher that can trigger a reload or be closed
+ * @throws If the logger was not created by `createLogger`
+ *
+ * @remarks
+ * The file may contain `level`, `enableConsoleLogging`, `redact` and `moduleLevels`.
+ * It is applied immediately if it exists, then again whenever it changes or the signal arrives.
+ * Every reload validates the whole file before anything changes; an invalid file
+ * is reported through `onError` and the running configuration is kept.
+ *
+ * Options missing from the file revert to the values the logger had when watching
+ * started, so deleting `"level": "debug"` turns verbose logging off again.
+ * Redaction patterns are given as built-in names or `/regex/flags` strings.
+ *
+ * @example
+ * ```ts
+ * const watcher = watchLoggerConfig(logger, '/etc/api/logging.json')
+ * // echo '{"level":"debug"}' > /etc/api/logging.json   (or: kill -HUP <pid>)
+ * process.on('beforeExit', () => watcher.close())
+ * ```
+ */
+export const watchLoggerConfig = (
+  logger: winston.Logger,
+  configPath: string,
+  options: ConfigWatcherOptions = {}
+): ConfigWatcher => {
+  const {
+    signal = 'SIGHUP',
+    watchFile = true,
+    interval = 1000,
+    onReload,
+    onError = (error) => console.error(error.message),
+  } = options
+
+  const found = findRuntime(logger)
+  if (!found) {
+    throw new Error('Config watching requires a logger created by createLogger')
+  }
+  const { root, runtime } = found
+  const filePath = createSafePath(configPath)
+
+  const baseline: ReloadableLoggerOptions<string> = {
+    level: runtime.level,
+    moduleLevels: Object.fromEntries(runtime.moduleLevels),
+    redact: runtime.redact ?? false,
+    enableConsoleLogging: root.transports.includes(runtime.consoleTransport),
+  }
+
+  const reload = (): boolean => {
+    let raw: unknown
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      onError(new Error(`Failed to read logger config ${filePath}: ${message}`))
+      return false
+    }
+
+    const result = parseReloadableOptions(raw, Object.keys(runtime.levels))
+    if (result.issues) {
+      onError(new LoggerConfigError(`Invalid logger config ${filePath}`, result.issues))
+      return false
+    }
+
+    const next = { ...baseline }
+    for (const [key, value] of Object.entries(result.options)) {
+      if (value !== undefined) {
+        Object.assign(next, { [key]: value })
+      }
+    }
+    reconfigureLogger(root as TypedLogger<string>, next)
+    onReload?.(next)
+    return true
+  }
+
+  const onSignal = () => {
+    reload()
+  }
+  const onChange = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      reload()
+    }
+  }
+
+  if (fs.existsSync(filePath)) {
+    reload()
+  }
+  if (signal) {
+    process.on(signal, onSignal)
+  }
+  if (watchFile) {
+    fs.watchFile(filePath, { interval, persistent: false }, onChange)
+  }
+
+  return {
+    reload,
+    close: () => {
+      if (signal) {
+        process.off(signal, onSignal)
+      }
+      if (watchFile) {
+        fs.unwatchFile(filePath, onChange)
+      }
+    },
+  }
+}